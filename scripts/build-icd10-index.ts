@@ -0,0 +1,43 @@
+/**
+ * Build the local ICD-10 search index by traversing the WHO ICD-10 tabular.
+ *
+ * Usage:
+ *   WHO_CLIENT_ID=... WHO_CLIENT_SECRET=... npm run build:icd10-index [-- output.json]
+ *
+ * Honors ICD10_RELEASE, WHO_API_LANGUAGE and WHO_API_CONCURRENCY. Upload the
+ * result with the wrangler command printed at the end.
+ */
+
+import { writeFileSync } from "node:fs";
+import { WHOICDClient } from "../src/client";
+import { buildICD10Index, indexKey } from "../src/searchindex";
+
+const clientId = process.env.WHO_CLIENT_ID;
+const clientSecret = process.env.WHO_CLIENT_SECRET;
+if (!clientId || !clientSecret) {
+  console.error("WHO_CLIENT_ID and WHO_CLIENT_SECRET must be set");
+  process.exit(1);
+}
+
+const client = new WHOICDClient({
+  clientId,
+  clientSecret,
+  icd10Release: process.env.ICD10_RELEASE,
+  language: process.env.WHO_API_LANGUAGE,
+  concurrency: process.env.WHO_API_CONCURRENCY ? Number(process.env.WHO_API_CONCURRENCY) : 8,
+});
+
+const release = client.getRelease("10");
+const language = client.getLanguage();
+const output = process.argv[2] || `icd10-index-${release}-${language}.json`;
+
+console.error(`Building ICD-10 ${release} (${language}) search index...`);
+
+const index = await buildICD10Index(client, (chapter, entries) => {
+  console.error(`  chapter ${chapter}: ${entries} categories so far`);
+});
+
+writeFileSync(output, JSON.stringify(index));
+
+console.error(`Wrote ${index.entries.length} categories to ${output}. Upload with:`);
+console.error(`  npx wrangler kv key put --binding ICD_INDEX "${indexKey(release, language)}" --path ${output} --remote`);
@@ -0,0 +1,73 @@
+/**
+ * Export a classification release for offline mode (ICD_OFFLINE=true).
+ *
+ * Usage:
+ *   WHO_CLIENT_ID=... WHO_CLIENT_SECRET=... npm run export:snapshot -- <10|11> [output-dir]
+ *
+ * Honors ICD10_RELEASE, ICD11_RELEASE, WHO_API_LANGUAGE and WHO_API_CONCURRENCY.
+ * Writes one JSON file per snapshot object under output-dir (default: snapshot-export);
+ * exporting more releases or languages into the same directory adds to it.
+ * Copy the directory to the root of the ICD_SNAPSHOTS R2 bucket, keeping paths.
+ */
+
+import { mkdirSync, readFileSync, writeFileSync, existsSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { WHOICDClient } from "../src/client";
+import { exportSnapshot, releaseRoot, snapshotKey, EXPORT_CONCURRENCY } from "../src/snapshot";
+
+const version = process.argv[2];
+const outDir = process.argv[3] || "snapshot-export";
+if (version !== "10" && version !== "11") {
+  console.error("Usage: export-snapshot.ts <10|11> [output-dir]");
+  process.exit(1);
+}
+
+const clientId = process.env.WHO_CLIENT_ID;
+const clientSecret = process.env.WHO_CLIENT_SECRET;
+if (!clientId || !clientSecret) {
+  console.error("WHO_CLIENT_ID and WHO_CLIENT_SECRET must be set");
+  process.exit(1);
+}
+
+const client = new WHOICDClient({
+  clientId,
+  clientSecret,
+  icd10Release: process.env.ICD10_RELEASE,
+  icd11Release: process.env.ICD11_RELEASE,
+  language: process.env.WHO_API_LANGUAGE,
+});
+
+const concurrency = process.env.WHO_API_CONCURRENCY ? Number(process.env.WHO_API_CONCURRENCY) : EXPORT_CONCURRENCY;
+
+const release = client.getRelease(version);
+const language = client.getLanguage();
+
+const write = async (key: string, data: unknown) => {
+  const path = join(outDir, key);
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(data));
+};
+
+console.error(`Exporting ICD-${version} ${release} (${language}) to ${outDir}, ${concurrency} requests at a time...`);
+
+const index = await exportSnapshot(
+  client,
+  version,
+  write,
+  (entities) => {
+    console.error(`  ${entities} entities`);
+  },
+  concurrency
+);
+
+// Release listing served offline: the releases exported into this directory
+const listEndpoint = version === "10" ? "/icd/release/10" : "/icd/release/11/mms";
+const listPath = join(outDir, snapshotKey(language, listEndpoint));
+const listing = existsSync(listPath)
+  ? (JSON.parse(readFileSync(listPath, "utf8")) as { release: string[] })
+  : { release: [] };
+const uris = [...new Set([...listing.release, `http://id.who.int${releaseRoot(version, release)}`])].sort();
+await write(snapshotKey(language, listEndpoint), { release: uris, latestRelease: uris[uris.length - 1] });
+
+console.error(`Exported ${index.entries.length} categories. Upload with, e.g.:`);
+console.error(`  rclone copy ${outDir} r2:<icd-snapshots-bucket>`);
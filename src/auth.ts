@@ -0,0 +1,175 @@
+/**
+ * ICD MCP Server - Caller Authentication
+ *
+ * Maps the credentials on an /mcp or /fhir request to a tenant. Callers send
+ * an API key (Authorization: Bearer <key>, or X-API-Key) or an OAuth access
+ * token. Keys are matched by SHA-256 digest against the tenants in
+ * ICD_TENANTS, so the secret itself never sits in configuration; tokens are
+ * checked with the authorization server's introspection endpoint (RFC 7662)
+ * and mapped to a tenant by their client ID. A tenant may bring its own WHO
+ * credentials, default releases, language and call budget.
+ */
+
+import { UnauthorizedError, UpstreamUnavailableError } from "./errors";
+
+// Tenant as configured in ICD_TENANTS (JSON object keyed by tenant ID)
+export interface TenantConfig {
+  // SHA-256 hex digests of the tenant's API keys
+  keys?: string[];
+  // OAuth client IDs whose access tokens belong to this tenant
+  oauthClients?: string[];
+  // WHO ICD-API credentials (default: the deployment's WHO_CLIENT_ID/SECRET)
+  whoClientId?: string;
+  whoClientSecret?: string;
+  icd10Release?: string;
+  icd11Release?: string;
+  language?: string;
+  // Calls per minute and per day (default: ICD_RATE_LIMIT, ICD_DAILY_QUOTA; 0 = unlimited)
+  rateLimit?: number;
+  dailyQuota?: number;
+}
+
+// Authenticated caller
+export interface Tenant extends Omit<TenantConfig, "keys" | "oauthClients"> {
+  id: string;
+}
+
+// OAuth token introspection endpoint and the resource server's credentials for it
+export interface IntrospectionConfig {
+  url: string;
+  clientId: string;
+  clientSecret: string;
+}
+
+// Introspected tokens remembered per isolate (until they expire)
+const MAX_CACHED_TOKENS = 1000;
+
+// Longest an introspection result is trusted when the token carries no expiry
+const DEFAULT_TOKEN_TTL_MS = 5 * 60 * 1000;
+
+// Token digest → tenant ID and expiry; rejected tokens are not remembered
+const introspected = new Map<string, { tenant: string; expiresAt: number }>();
+
+/**
+ * SHA-256 hex digest of a credential
+ */
+export async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Parse ICD_TENANTS, rejecting configurations that would fail at request time
+ */
+export function parseTenants(json: string): Record<string, TenantConfig> {
+  let tenants: unknown;
+  try {
+    tenants = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`ICD_TENANTS is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (typeof tenants !== "object" || tenants === null || Array.isArray(tenants)) {
+    throw new Error("ICD_TENANTS must be a JSON object keyed by tenant ID");
+  }
+
+  for (const [id, tenant] of Object.entries(tenants as Record<string, TenantConfig>)) {
+    if (!!tenant.whoClientId !== !!tenant.whoClientSecret) {
+      throw new Error(`ICD_TENANTS: tenant '${id}' must set both whoClientId and whoClientSecret, or neither`);
+    }
+    for (const key of tenant.keys || []) {
+      if (!/^[0-9a-f]{64}$/i.test(key)) {
+        throw new Error(`ICD_TENANTS: tenant '${id}' has a key that is not a SHA-256 hex digest`);
+      }
+    }
+  }
+  return tenants as Record<string, TenantConfig>;
+}
+
+/**
+ * Credential presented on a request: X-API-Key, or the Authorization bearer token
+ */
+function credentialOf(request: Request): string | null {
+  const apiKey = request.headers.get("X-API-Key")?.trim();
+  if (apiKey) return apiKey;
+
+  const authorization = request.headers.get("Authorization")?.match(/^Bearer\s+(\S+)\s*$/i);
+  return authorization ? authorization[1] : null;
+}
+
+export class Authenticator {
+  // Key digest → tenant ID
+  private keys = new Map<string, string>();
+  // OAuth client ID → tenant ID
+  private oauthClients = new Map<string, string>();
+
+  constructor(
+    private tenants: Record<string, TenantConfig>,
+    private introspection?: IntrospectionConfig,
+    private fetcher: typeof fetch = (input, init) => fetch(input, init)
+  ) {
+    for (const [id, tenant] of Object.entries(tenants)) {
+      for (const key of tenant.keys || []) this.keys.set(key.toLowerCase(), id);
+      for (const client of tenant.oauthClients || []) this.oauthClients.set(client, id);
+    }
+  }
+
+  /**
+   * Resolve the tenant a request belongs to
+   */
+  async authenticate(request: Request): Promise<Tenant> {
+    const credential = credentialOf(request);
+    if (!credential) {
+      throw new UnauthorizedError("Missing credentials: send an API key or access token as 'Authorization: Bearer <token>'");
+    }
+
+    const digest = await sha256Hex(credential);
+    const id = this.keys.get(digest) || (this.introspection ? await this.introspect(credential, digest) : undefined);
+    if (!id) {
+      throw new UnauthorizedError("Invalid API key or access token");
+    }
+
+    const { keys, oauthClients, ...tenant } = this.tenants[id];
+    return { id, ...tenant };
+  }
+
+  /**
+   * Tenant of an OAuth access token, via the introspection endpoint
+   */
+  private async introspect(token: string, digest: string): Promise<string | undefined> {
+    const cached = introspected.get(digest);
+    if (cached && Date.now() < cached.expiresAt) return cached.tenant;
+    introspected.delete(digest);
+
+    const { url, clientId, clientSecret } = this.introspection!;
+    let response: Response;
+    try {
+      response = await this.fetcher(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/x-www-form-urlencoded",
+          Authorization: `Basic ${btoa(`${clientId}:${clientSecret}`)}`,
+        },
+        body: new URLSearchParams({ token, token_type_hint: "access_token" }).toString(),
+      });
+    } catch (error) {
+      throw new UpstreamUnavailableError(
+        `Token introspection unreachable: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    if (!response.ok) {
+      throw new UpstreamUnavailableError(`Token introspection failed: ${response.status}`);
+    }
+
+    const result = (await response.json()) as { active?: boolean; client_id?: string; exp?: number };
+    const tenant = result.active && result.client_id ? this.oauthClients.get(result.client_id) : undefined;
+    if (!tenant) return undefined;
+
+    if (introspected.size >= MAX_CACHED_TOKENS) introspected.clear();
+    introspected.set(digest, {
+      tenant,
+      expiresAt: Math.min(result.exp ? result.exp * 1000 : Infinity, Date.now() + DEFAULT_TOKEN_TTL_MS),
+    });
+    return tenant;
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * ICD MCP Server - Entity Cache
+ *
+ * Persistent cache for WHO ICD-API responses. Classification releases are
+ * immutable, so entity and codeinfo payloads can be cached for long periods.
+ * Backed by Workers KV when a namespace is bound, otherwise the Cache API.
+ */
+
+// Default TTLs in seconds
+export const DEFAULT_ENTITY_TTL = 30 * 24 * 60 * 60;
+export const DEFAULT_CODEINFO_TTL = 30 * 24 * 60 * 60;
+
+// Workers KV rejects expirationTtl values below 60 seconds
+export const KV_MIN_TTL = 60;
+
+// Synthetic origin for Cache API keys (never fetched)
+const CACHE_API_ORIGIN = "https://icd-cache.internal";
+
+export type CacheKind = "entity" | "codeinfo";
+
+export interface CacheTTLs {
+  entity: number;
+  codeinfo: number;
+}
+
+/**
+ * Storage backend for cached API payloads
+ */
+export interface EntityCache {
+  get<T>(key: string): Promise<T | null>;
+  put<T>(key: string, value: T, ttlSeconds: number): Promise<void>;
+}
+
+/**
+ * Build a cache key from release, language and entity URI / endpoint.
+ * The release is taken from the URI path (e.g. /icd/release/11/2024-01/mms/...).
+ */
+export function cacheKey(language: string, uri: string): string {
+  const path = uri.replace(/^https?:\/\/id\.who\.int/, "");
+  const match = path.match(/^\/icd\/release\/(10|11)\/([^/?]+)/);
+  const release = match ? `${match[1]}-${match[2]}` : "unversioned";
+  return `icd:${release}:${language}:${path}`;
+}
+
+/**
+ * Workers KV backed cache (shared across isolates and colos)
+ */
+export class KVEntityCache implements EntityCache {
+  constructor(private kv: KVNamespace) {}
+
+  async get<T>(key: string): Promise<T | null> {
+    try {
+      return await this.kv.get<T>(key, "json");
+    } catch (error) {
+      console.warn(`Cache read failed for ${key}:`, error);
+      return null;
+    }
+  }
+
+  async put<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
+    try {
+      await this.kv.put(key, JSON.stringify(value), {
+        expirationTtl: Math.max(ttlSeconds, KV_MIN_TTL),
+      });
+    } catch (error) {
+      console.warn(`Cache write failed for ${key}:`, error);
+    }
+  }
+}
+
+/**
+ * Cache API backed cache (per-colo, no binding required)
+ */
+export class CacheApiEntityCache implements EntityCache {
+  constructor(private cache: Cache) {}
+
+  private request(key: string): Request {
+    return new Request(`${CACHE_API_ORIGIN}/${encodeURIComponent(key)}`);
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    try {
+      const response = await this.cache.match(this.request(key));
+      if (!response) return null;
+      return (await response.json()) as T;
+    } catch (error) {
+      console.warn(`Cache read failed for ${key}:`, error);
+      return null;
+    }
+  }
+
+  async put<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
+    try {
+      await this.cache.put(
+        this.request(key),
+        new Response(JSON.stringify(value), {
+          headers: {
+            "Content-Type": "application/json",
+            "Cache-Control": `public, max-age=${ttlSeconds}`,
+          },
+        })
+      );
+    } catch (error) {
+      console.warn(`Cache write failed for ${key}:`, error);
+    }
+  }
+}
+
+/**
+ * Parse a TTL (seconds) from an environment variable, falling back to a default
+ */
+export function parseTtl(value: string | undefined, fallback: number): number {
+  if (!value) return fallback;
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
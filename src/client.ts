@@ -5,117 +5,470 @@
  * API Documentation: https://icd.who.int/docs/icd-api/APIDoc-Version2/
  */
 
-import { WHOClientConfig, ICDEntity, ICDSearchResult, ICDChapter, ICDAutocodeResult } from "./types";
+import {
+  WHOClientConfig,
+  ICDEntity,
+  ICDSearchResult,
+  ICDChapter,
+  ICDAutocodeResult,
+  ICDAutocodeCandidates,
+  ICDValidation,
+  ICDPostcoordinationAxis,
+  ICDExpansion,
+  ICDExpansionConcept,
+  ICDExpansionOptions,
+  ICDReleaseList,
+  ICDFoundationEntity,
+  ICDFoundationSearchResult,
+  ICDLinearization,
+} from "./types";
+import { EntityCache, CacheKind, CacheTTLs, cacheKey, DEFAULT_ENTITY_TTL, DEFAULT_CODEINFO_TTL } from "./cache";
+import { TokenStore, AccessToken } from "./token";
+import { FetchScheduler } from "./scheduler";
+import { IsolateMemo } from "./memo";
+import {
+  RetryPolicy,
+  DEFAULT_RETRY_POLICY,
+  CircuitBreaker,
+  getCircuitBreaker,
+  backoffDelay,
+  parseRetryAfter,
+  fetchWithTimeout,
+  sleep,
+} from "./resilience";
+import {
+  ICDError,
+  NotFoundError,
+  RateLimitedError,
+  AuthFailedError,
+  UpstreamUnavailableError,
+  InvalidInputError,
+} from "./errors";
+import { SnapshotStore } from "./snapshot";
+
+export const TOKEN_ENDPOINT = "https://icdaccessmanagement.who.int/connect/token";
+export const API_BASE_URL = "https://id.who.int";
+
+// Entity URIs are WHO identifiers (http://id.who.int/...) whichever server serves them
+const ENTITY_URI_HOST = /^https?:\/\/id\.who\.int/;
+
+// Friendly labels for postcoordination axes (schema names from the WHO API)
+const AXIS_LABELS: Record<string, string> = {
+  hasSeverity: "Severity",
+  hasAlternativeSeverity1: "Severity (alternative scale)",
+  hasAlternativeSeverity2: "Severity (alternative scale)",
+  hasCausingCondition: "Causing condition",
+  hasManifestation: "Manifestation",
+  associatedWith: "Associated with",
+  specificAnatomy: "Anatomy (specific site)",
+  laterality: "Laterality",
+  relational: "Relational",
+  distribution: "Distribution",
+  course: "Course",
+  temporalPatternAndOnset: "Temporality",
+  timeInLife: "Time in life",
+  infectiousAgent: "Infectious agent",
+  chemicalAgent: "Chemical agent",
+  medication: "Medication",
+  histopathology: "Histopathology",
+  biologicalIndicator: "Biological indicator",
+  diagnosisConfirmedBy: "Diagnosis confirmed by",
+  hasPupilReactionScore: "Pupil reaction score",
+  hasGCSEyeScore: "GCS eye score",
+  hasGCSMotorScore: "GCS motor score",
+  hasGCSVerbalScore: "GCS verbal score",
+  fracturesubtype: "Fracture subtype",
+  fractureOpenOrClosed: "Fracture open or closed",
+  typeOfInjury: "Type of injury",
+  extentOfBurnByBodySurface: "Extent of burn (body surface)",
+  extentOfFullThicknessBurnByBodySurface: "Extent of full thickness burn",
+  outcomeOfFullThicknessBurn: "Outcome of full thickness burn",
+  activityWhenInjured: "Activity when injured",
+  objectOrSubstanceProducingInjury: "Object or substance producing injury",
+  mechanismOfInjury: "Mechanism of injury",
+  placeOfOccurrence: "Place of occurrence",
+  intent: "Intent",
+};
 
-const TOKEN_ENDPOINT = "https://icdaccessmanagement.who.int/connect/token";
-const API_BASE_URL = "https://id.who.int";
+/**
+ * Label an axis schema URI (e.g. .../schema/hasSeverity → "Severity")
+ */
+function axisLabel(axis: string): string {
+  if (AXIS_LABELS[axis]) return AXIS_LABELS[axis];
+  const words = axis.replace(/^has/, "").replace(/([a-z])([A-Z])/g, "$1 $2").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+// Expansion limits: entities fetched per traversal, and default page size
+export const MAX_EXPANSION_NODES = 1000;
+const DEFAULT_EXPANSION_COUNT = 100;
+
+// Class kinds that group codes but cannot be coded themselves
+const GROUPING_KINDS = new Set(["chapter", "block"]);
+
+// Language tags accepted by the WHO API (e.g. en, fr, zh, pt-BR)
+const LANGUAGE_PATTERN = /^[a-z]{2}(-[A-Za-z]{2,4})?$/;
+
+// Release identifiers (ICD-10: 2019; ICD-11: 2024-01)
+const RELEASE_PATTERN = /^\d{4}(-\d{2})?$/;
+
+// Release listings per upstream and classification, refreshed hourly so new
+// WHO releases are picked up without waiting for the isolate to recycle
+const RELEASE_LIST_TTL_MS = 60 * 60 * 1000;
+const releaseLists = new IsolateMemo<{ releases: string[]; latest?: string }>(RELEASE_LIST_TTL_MS);
+
+/**
+ * Extract the release id from a release URI
+ * (http://id.who.int/icd/release/10/2019, .../release/11/2024-01/mms)
+ */
+function releaseId(uri: string): string {
+  return uri.match(/\/release\/(?:10|11)\/([^/]+)/)?.[1] || uri;
+}
+
+// Foundation entity ID or URI (1435254666, http://id.who.int/icd/entity/1435254666)
+const FOUNDATION_ID_PATTERN = /^(?:https?:\/\/id\.who\.int\/icd\/entity\/)?(\d+)$/;
+
+/**
+ * Foundation entity ID from an ID or URI (http://id.who.int/icd/entity/1435254666)
+ */
+function foundationId(id: string): string {
+  const trimmed = id.trim();
+  const match = trimmed.match(FOUNDATION_ID_PATTERN);
+  if (!match) {
+    throw new InvalidInputError(`'${trimmed}' is not a Foundation entity ID or URI (e.g. 1435254666)`);
+  }
+  return match[1];
+}
+
+// Letters, digits, dots and dashes (e.g. J18.9, BA00, 1A00-1A09)
+const CODE_PATTERN = /^[A-Za-z0-9][A-Za-z0-9.\-]*$/;
+
+/**
+ * Reject malformed codes before they reach the API
+ */
+function assertCodeFormat(code: string): void {
+  if (!CODE_PATTERN.test(code)) {
+    throw new InvalidInputError(`'${code}' is not a well-formed ICD code`);
+  }
+}
 
 export class WHOICDClient {
+  private config: WHOClientConfig;
   private clientId: string;
   private clientSecret: string;
   private icd10Release: string;
   private icd11Release: string;
   private language: string;
-  private accessToken: string | null = null;
-  private tokenExpiry: number = 0;
+  private tokenStore: TokenStore;
+  private scheduler: FetchScheduler;
+  private retryPolicy: RetryPolicy;
+  private breaker: CircuitBreaker;
+  private cache: EntityCache | null;
+  private cacheTtl: CacheTTLs;
+  private cacheBypass: boolean;
+  private snapshots: SnapshotStore | null;
+  private tokenEndpoint: string;
+  private apiBaseUrl: string;
+  private fetcher: typeof fetch;
 
   constructor(config: WHOClientConfig) {
+    this.config = config;
     this.clientId = config.clientId;
     this.clientSecret = config.clientSecret;
     this.icd10Release = config.icd10Release || "2019";
     this.icd11Release = config.icd11Release || "2024-01";
     this.language = config.language || "en";
+    this.cache = config.cache || null;
+    this.cacheTtl = {
+      entity: config.cacheTtl?.entity ?? DEFAULT_ENTITY_TTL,
+      codeinfo: config.cacheTtl?.codeinfo ?? DEFAULT_CODEINFO_TTL,
+    };
+    this.cacheBypass = config.cacheBypass ?? false;
+    this.snapshots = config.snapshots || null;
+    this.tokenEndpoint = config.tokenEndpoint || TOKEN_ENDPOINT;
+    this.apiBaseUrl = (config.apiBaseUrl || API_BASE_URL).replace(/\/+$/, "");
+    // Unbound so the Workers runtime doesn't reject it as an illegal invocation
+    this.fetcher = config.fetch || ((input, init) => fetch(input, init));
+    this.tokenStore = config.tokenStore || new TokenStore();
+    this.scheduler = new FetchScheduler(config.concurrency);
+    this.retryPolicy = {
+      maxRetries: config.retry?.maxRetries ?? DEFAULT_RETRY_POLICY.maxRetries,
+      baseDelayMs: config.retry?.baseDelayMs ?? DEFAULT_RETRY_POLICY.baseDelayMs,
+      maxDelayMs: config.retry?.maxDelayMs ?? DEFAULT_RETRY_POLICY.maxDelayMs,
+      timeoutMs: config.retry?.timeoutMs ?? DEFAULT_RETRY_POLICY.timeoutMs,
+    };
+    this.breaker = getCircuitBreaker(this.apiBaseUrl);
+  }
+
+  /**
+   * Derive a client with per-call overrides (language, releases). The derived client
+   * shares this client's cache, token store, fetch scheduler and circuit breaker.
+   */
+  withOptions(overrides: Pick<WHOClientConfig, "language" | "icd10Release" | "icd11Release">): WHOICDClient {
+    if (overrides.language !== undefined && !LANGUAGE_PATTERN.test(overrides.language)) {
+      throw new InvalidInputError(`'${overrides.language}' is not a valid language code (e.g. en, fr, es, ar, zh)`);
+    }
+    for (const release of [overrides.icd10Release, overrides.icd11Release]) {
+      if (release !== undefined && !RELEASE_PATTERN.test(release)) {
+        throw new InvalidInputError(`'${release}' is not a valid release (e.g. 2019 for ICD-10, 2024-01 for ICD-11)`);
+      }
+    }
+
+    const config: WHOClientConfig = { ...this.config, tokenStore: this.tokenStore };
+    for (const [key, value] of Object.entries(overrides) as [keyof typeof overrides, string | undefined][]) {
+      if (value !== undefined) config[key] = value;
+    }
+
+    const client = new WHOICDClient(config);
+    client.scheduler = this.scheduler;
+    return client;
+  }
+
+  /**
+   * Language used for titles and definitions
+   */
+  getLanguage(): string {
+    return this.language;
   }
 
   /**
    * Authenticate with WHO ICD-API using OAuth2 client credentials
    */
-  private async authenticate(): Promise<void> {
-    const response = await fetch(TOKEN_ENDPOINT, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/x-www-form-urlencoded",
-      },
-      body: new URLSearchParams({
-        grant_type: "client_credentials",
-        client_id: this.clientId,
-        client_secret: this.clientSecret,
-        scope: "icdapi_access",
-      }),
-    });
+  private async authenticate(): Promise<AccessToken> {
+    let response: Response;
+    try {
+      response = await fetchWithTimeout(
+        this.tokenEndpoint,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/x-www-form-urlencoded",
+          },
+          body: new URLSearchParams({
+            grant_type: "client_credentials",
+            client_id: this.clientId,
+            client_secret: this.clientSecret,
+            scope: "icdapi_access",
+          }),
+        },
+        this.retryPolicy.timeoutMs,
+        this.fetcher
+      );
+    } catch (error) {
+      throw new UpstreamUnavailableError(
+        `WHO token endpoint unreachable: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
 
     if (!response.ok) {
       const text = await response.text();
-      throw new Error(`Authentication failed: ${response.status} - ${text}`);
+      if (response.status >= 500) {
+        throw new UpstreamUnavailableError(`WHO token endpoint unavailable: ${response.status}`);
+      }
+      throw new AuthFailedError(`Authentication failed: ${response.status} - ${text}`);
     }
 
     const data = (await response.json()) as { access_token: string; expires_in: number };
-    this.accessToken = data.access_token;
-    this.tokenExpiry = Date.now() + (data.expires_in - 300) * 1000;
+    return {
+      accessToken: data.access_token,
+      expiresAt: Date.now() + (data.expires_in - 300) * 1000,
+    };
   }
 
   /**
-   * Ensure we have a valid access token
+   * Ensure we have a valid access token (shared across requests via the token store)
    */
   private async ensureToken(): Promise<string> {
-    if (!this.accessToken || Date.now() >= this.tokenExpiry) {
-      await this.authenticate();
-    }
-    return this.accessToken!;
+    return this.tokenStore.getToken(this.clientId, () => this.authenticate());
   }
 
   /**
-   * Make an authenticated API request
+   * Make an authenticated API request.
+   *
+   * Retries network errors, timeouts, 429 and 5xx responses with jittered
+   * exponential backoff (honoring Retry-After), re-authenticates once on 401,
+   * and fails fast while the circuit breaker is open. In offline mode the
+   * request is answered from the classification snapshot instead.
    */
   async apiRequest<T>(endpoint: string, params?: Record<string, string>): Promise<T> {
-    const token = await this.ensureToken();
+    if (this.snapshots) {
+      return this.snapshots.request<T>(endpoint, params, this.language);
+    }
 
-    let url = `${API_BASE_URL}${endpoint}`;
+    let url = `${this.apiBaseUrl}${endpoint}`;
     if (params) {
       const searchParams = new URLSearchParams(params);
       url += `?${searchParams.toString()}`;
     }
 
-    const response = await fetch(url, {
-      headers: {
-        Authorization: `Bearer ${token}`,
-        Accept: "application/json",
-        "Accept-Language": this.language,
-        "API-Version": "v2",
-      },
-    });
-
-    if (response.status === 401) {
-      this.accessToken = null;
-      return this.apiRequest(endpoint, params);
+    if (!this.breaker.canRequest()) {
+      const seconds = Math.ceil(this.breaker.retryIn() / 1000);
+      throw new UpstreamUnavailableError(
+        `WHO ICD-API is unavailable after repeated failures. Retrying in ${seconds}s.`
+      );
     }
 
-    if (response.status === 429) {
-      throw new Error("Rate limit exceeded. Please try again later.");
-    }
+    const policy = this.retryPolicy;
+    let retries = 0;
+    let reauthenticated = false;
+
+    while (true) {
+      const token = await this.ensureToken();
+
+      let response: Response;
+      try {
+        response = await fetchWithTimeout(
+          url,
+          {
+            headers: {
+              Authorization: `Bearer ${token}`,
+              Accept: "application/json",
+              "Accept-Language": this.language,
+              "API-Version": "v2",
+            },
+          },
+          policy.timeoutMs,
+          this.fetcher
+        );
+      } catch (error) {
+        if (retries < policy.maxRetries) {
+          await sleep(backoffDelay(retries++, policy));
+          continue;
+        }
+        this.breaker.recordFailure();
+        const timedOut = error instanceof Error && error.name === "AbortError";
+        throw new UpstreamUnavailableError(
+          timedOut
+            ? `WHO ICD-API request timed out after ${policy.timeoutMs}ms`
+            : `WHO ICD-API request failed: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
 
-    if (!response.ok) {
-      const text = await response.text();
-      throw new Error(`API request failed: ${response.status} - ${text}`);
+      if (response.status === 401) {
+        await response.body?.cancel();
+        await this.tokenStore.invalidate(this.clientId, token);
+        if (!reauthenticated) {
+          reauthenticated = true;
+          continue;
+        }
+        throw new AuthFailedError("WHO ICD-API rejected the credentials. Check WHO_CLIENT_ID and WHO_CLIENT_SECRET.");
+      }
+
+      if (response.status === 429 || response.status >= 500) {
+        await response.body?.cancel();
+        const retryAfter = parseRetryAfter(response.headers.get("Retry-After"));
+        const delay = retryAfter ?? backoffDelay(retries, policy);
+
+        if (retries < policy.maxRetries && delay <= policy.maxDelayMs) {
+          retries++;
+          await sleep(delay);
+          continue;
+        }
+
+        if (response.status === 429) {
+          const wait = retryAfter !== null ? ` Retry after ${Math.ceil(retryAfter / 1000)}s.` : "";
+          throw new RateLimitedError(`Rate limit exceeded.${wait || " Please try again later."}`, retryAfter ?? undefined);
+        }
+
+        this.breaker.recordFailure();
+        throw new UpstreamUnavailableError(`WHO ICD-API unavailable: ${response.status} after ${retries + 1} attempts`);
+      }
+
+      this.breaker.recordSuccess();
+
+      if (!response.ok) {
+        const text = await response.text();
+        if (response.status === 404) {
+          throw new NotFoundError(`Not found: ${endpoint}`);
+        }
+        if (response.status === 400) {
+          throw new InvalidInputError(`Invalid request: ${text || endpoint}`);
+        }
+        throw new ICDError(`API request failed: ${response.status} - ${text}`);
+      }
+
+      return response.json() as Promise<T>;
     }
+  }
+
+  /**
+   * Make an API request served from the entity cache when possible.
+   * Only use for immutable, release-scoped resources (entities, codeinfo).
+   * Runs through the fetch scheduler, so duplicate in-flight lookups coalesce.
+   */
+  private cachedRequest<T>(kind: CacheKind, endpoint: string): Promise<T> {
+    const key = cacheKey(this.language, endpoint);
+
+    return this.scheduler.run(key, async () => {
+      // Snapshots are already local; caching them would only duplicate storage
+      if (!this.cache || this.cacheBypass || this.snapshots) {
+        return this.apiRequest<T>(endpoint);
+      }
+
+      const cached = await this.cache.get<T>(key);
+      if (cached !== null) {
+        return cached;
+      }
+
+      const data = await this.apiRequest<T>(endpoint);
+      await this.cache.put(key, data, this.cacheTtl[kind]);
+      return data;
+    });
+  }
+
+  /**
+   * Release identifier this client targets for the given ICD version
+   */
+  getRelease(version: string): string {
+    return version === "10" ? this.icd10Release : this.icd11Release;
+  }
 
-    return response.json() as Promise<T>;
+  /**
+   * List the releases the WHO API offers for a classification (newest first)
+   */
+  async listReleases(version: string): Promise<ICDReleaseList> {
+    const endpoint = version === "10" ? "/icd/release/10" : "/icd/release/11/mms";
+
+    // Snapshots list the releases exported for their language
+    const upstream = this.snapshots ? `snapshots:${this.language}` : this.apiBaseUrl;
+
+    const { releases, latest } = await releaseLists.get(`${upstream}${endpoint}`, () =>
+      this.apiRequest<{ release?: string[]; latestRelease?: string }>(endpoint).then((data) => ({
+        releases: (data.release || []).map(releaseId).sort().reverse(),
+        latest: data.latestRelease ? releaseId(data.latestRelease) : undefined,
+      }))
+    );
+    return { version, releases, latest, current: this.getRelease(version) };
+  }
+
+  /**
+   * Reject releases the WHO API does not offer for a classification
+   */
+  async assertRelease(version: string, release: string): Promise<void> {
+    const { releases } = await this.listReleases(version);
+    if (!releases.includes(release)) {
+      throw new InvalidInputError(
+        `ICD-${version} release '${release}' is not available. Available: ${releases.join(", ")}`
+      );
+    }
   }
 
   // ==================== ICD-10 Methods ====================
 
   /**
-   * Get ICD-10 code details
+   * Get ICD-10 code details (null if the code does not exist)
    */
   async getICD10Code(code: string): Promise<ICDEntity | null> {
+    assertCodeFormat(code);
     try {
-      const data = await this.apiRequest<Record<string, unknown>>(
+      const data = await this.cachedRequest<Record<string, unknown>>(
+        "entity",
         `/icd/release/10/${this.icd10Release}/${code}`
       );
       return this.parseEntity(data);
     } catch (error) {
-      console.warn(`Failed to get ICD-10 code ${code}:`, error);
-      return null;
+      if (error instanceof NotFoundError) return null;
+      throw error;
     }
   }
 
@@ -123,28 +476,12 @@ export class WHOICDClient {
    * Get ICD-10 chapters
    */
   async getICD10Chapters(): Promise<ICDChapter[]> {
-    const data = await this.apiRequest<{ child?: string[] }>(
+    const data = await this.cachedRequest<{ child?: string[] }>(
+      "entity",
       `/icd/release/10/${this.icd10Release}`
     );
 
-    const chapters: ICDChapter[] = [];
-    if (data.child) {
-      for (const uri of data.child) {
-        try {
-          const chapterData = await this.getEntityByUri(uri);
-          if (chapterData) {
-            chapters.push({
-              code: chapterData.code,
-              title: chapterData.title,
-              uri: uri,
-            });
-          }
-        } catch {
-          // Skip failed chapter fetches
-        }
-      }
-    }
-    return chapters;
+    return this.toChapters(data.child || []);
   }
 
   /**
@@ -156,25 +493,20 @@ export class WHOICDClient {
       return [];
     }
 
-    const children: ICDEntity[] = [];
-    for (const childUri of entity.children.slice(0, 20)) {
-      const child = await this.getEntityByUri(childUri);
-      if (child) {
-        children.push(child);
-      }
-    }
-    return children;
+    return this.getEntitiesByUri(entity.children.slice(0, 20));
   }
 
   // ==================== ICD-11 Methods ====================
 
   /**
-   * Get ICD-11 code details using codeinfo endpoint
+   * Get ICD-11 code details using codeinfo endpoint (null if the code does not exist)
    */
   async getICD11Code(code: string): Promise<ICDEntity | null> {
+    assertCodeFormat(code);
     try {
       // Use codeinfo to get the stemId
-      const codeinfo = await this.apiRequest<{ stemId?: string }>(
+      const codeinfo = await this.cachedRequest<{ stemId?: string }>(
+        "codeinfo",
         `/icd/release/11/${this.icd11Release}/mms/codeinfo/${code}`
       );
 
@@ -184,8 +516,8 @@ export class WHOICDClient {
 
       return this.getEntityByUri(codeinfo.stemId);
     } catch (error) {
-      console.warn(`Failed to get ICD-11 code ${code}:`, error);
-      return null;
+      if (error instanceof NotFoundError) return null;
+      throw error;
     }
   }
 
@@ -234,60 +566,57 @@ export class WHOICDClient {
    * Get ICD-11 chapters
    */
   async getICD11Chapters(): Promise<ICDChapter[]> {
-    const data = await this.apiRequest<{ child?: string[] }>(
+    const data = await this.cachedRequest<{ child?: string[] }>(
+      "entity",
       `/icd/release/11/${this.icd11Release}/mms`
     );
 
-    const chapters: ICDChapter[] = [];
-    if (data.child) {
-      for (const uri of data.child) {
-        try {
-          const chapterData = await this.getEntityByUri(uri);
-          if (chapterData) {
-            chapters.push({
-              code: chapterData.code,
-              title: chapterData.title,
-              uri: uri,
-            });
-          }
-        } catch {
-          // Skip failed chapter fetches
-        }
-      }
-    }
-    return chapters;
+    return this.toChapters(data.child || []);
   }
 
   /**
-   * Autocode free-text clinical description to ICD-11
+   * Autocode free-text clinical description to ICD-11 (best match only)
    */
   async autocodeICD11(text: string): Promise<ICDAutocodeResult | null> {
-    try {
-      const data = await this.apiRequest<{
-        destinationEntities?: Array<{
-          theCode?: string;
-          title?: string;
-          score?: number;
-          id?: string;
-        }>;
-        error?: boolean;
-      }>(`/icd/release/11/${this.icd11Release}/mms/autocode`, { q: text });
-
-      if (data.error || !data.destinationEntities || data.destinationEntities.length === 0) {
-        return null;
-      }
+    const { candidates } = await this.autocodeICD11Candidates(text, 1);
+    return candidates[0] || null;
+  }
+
+  /**
+   * Autocode free-text clinical description to ICD-11, returning ranked candidates
+   * with the index term each one matched on
+   */
+  async autocodeICD11Candidates(text: string, maxCandidates: number = 5): Promise<ICDAutocodeCandidates> {
+    const data = await this.apiRequest<{
+      matchingText?: string;
+      destinationEntities?: Array<{
+        theCode?: string;
+        title?: string;
+        score?: number;
+        id?: string;
+        matchingPVs?: Array<{ propertyId?: string; label?: string; score?: number }>;
+      }>;
+      error?: boolean;
+    }>(`/icd/release/11/${this.icd11Release}/mms/autocode`, { q: text });
 
-      const best = data.destinationEntities[0];
+    if (data.error || !data.destinationEntities) {
+      return { candidates: [] };
+    }
+
+    const candidates = data.destinationEntities.slice(0, maxCandidates).map((item) => {
+      // Best-scoring property value (title, synonym, index term) behind the match
+      const match = [...(item.matchingPVs || [])].sort((a, b) => (b.score ?? 0) - (a.score ?? 0))[0];
       return {
-        code: best.theCode || "",
-        title: best.title || "",
-        score: best.score,
-        uri: best.id || "",
+        code: item.theCode || "",
+        title: item.title || "",
+        score: item.score,
+        uri: item.id || "",
+        matchedTerm: match?.label,
+        matchedProperty: match?.propertyId,
       };
-    } catch (error) {
-      console.warn(`Autocode failed for "${text}":`, error);
-      return null;
-    }
+    });
+
+    return { matchedText: data.matchingText || undefined, candidates };
   }
 
   /**
@@ -297,12 +626,7 @@ export class WHOICDClient {
     const entity = await this.getEntityByUri(entityUri);
     if (!entity || !entity.children) return [];
 
-    const children: ICDEntity[] = [];
-    for (const childUri of entity.children.slice(0, 30)) {
-      const child = await this.getEntityByUri(childUri);
-      if (child) children.push(child);
-    }
-    return children;
+    return this.getEntitiesByUri(entity.children.slice(0, 30));
   }
 
   /**
@@ -350,14 +674,25 @@ export class WHOICDClient {
   }
 
   /**
-   * Validate an ICD code exists and return basic info
+   * Validate an ICD code exists and return basic info.
+   * Returns "unverified" when the WHO API could not give a definitive answer.
    */
-  async validateCode(code: string, version: string): Promise<{ valid: boolean; entity?: ICDEntity }> {
-    const entity = version === "10"
-      ? await this.getICD10Code(code)
-      : await this.getICD11Code(code);
+  async validateCode(code: string, version: string): Promise<ICDValidation> {
+    try {
+      const entity = version === "10"
+        ? await this.getICD10Code(code)
+        : await this.getICD11Code(code);
 
-    return { valid: entity !== null, entity: entity || undefined };
+      return entity ? { status: "valid", entity } : { status: "invalid" };
+    } catch (error) {
+      if (error instanceof InvalidInputError) {
+        return { status: "invalid", reason: error.message };
+      }
+      if (error instanceof ICDError) {
+        return { status: "unverified", reason: error.message };
+      }
+      throw error;
+    }
   }
 
   /**
@@ -369,38 +704,278 @@ export class WHOICDClient {
       return [];
     }
 
-    const children: ICDEntity[] = [];
-    for (const childUri of entity.children.slice(0, 20)) {
-      const child = await this.getEntityByUri(childUri);
-      if (child) {
-        children.push(child);
+    return this.getEntitiesByUri(entity.children.slice(0, 20));
+  }
+
+  // ==================== Foundation Methods ====================
+
+  /**
+   * Get a Foundation entity with synonyms and narrower terms (null if it does not exist).
+   * Pinned to the client's ICD-11 release so responses are cacheable.
+   */
+  async getFoundationEntity(id: string): Promise<ICDFoundationEntity | null> {
+    const entityId = foundationId(id);
+    try {
+      const data = await this.cachedRequest<Record<string, unknown>>(
+        "entity",
+        `/icd/entity/${entityId}?releaseId=${this.icd11Release}`
+      );
+
+      let fullySpecifiedName = data.fullySpecifiedName;
+      if (typeof fullySpecifiedName === "object" && fullySpecifiedName !== null) {
+        fullySpecifiedName = (fullySpecifiedName as Record<string, unknown>)["@value"];
       }
+
+      return {
+        ...this.parseEntity(data),
+        id: entityId,
+        fullySpecifiedName: fullySpecifiedName ? String(fullySpecifiedName) : undefined,
+        synonyms: this.parseLabels(data.synonym),
+        narrowerTerms: this.parseLabels(data.narrowerTerm),
+      };
+    } catch (error) {
+      if (error instanceof NotFoundError) return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Search the Foundation (includes concepts that are only index terms in the MMS)
+   */
+  async searchFoundation(query: string, maxResults: number = 10): Promise<ICDFoundationSearchResult[]> {
+    const data = await this.apiRequest<{
+      destinationEntities?: Array<{
+        id?: string;
+        title?: string;
+        score?: number;
+        matchingPVs?: Array<{ propertyId?: string; label?: string }>;
+      }>;
+    }>("/icd/entity/search", {
+      q: query,
+      useFlexisearch: "true",
+      flatResults: "true",
+      highlightingEnabled: "false",
+      releaseId: this.icd11Release,
+    });
+
+    // Hits without a Foundation entity ID cannot be looked up, so they are skipped
+    const hits = (data.destinationEntities || []).filter((item) => FOUNDATION_ID_PATTERN.test(item.id?.trim() || ""));
+
+    return hits.slice(0, maxResults).map((item) => {
+      // Report the matched term when it is not the title (synonym, narrower term, ...)
+      const match = item.matchingPVs?.find((pv) => pv.propertyId && pv.propertyId !== "Title");
+      return {
+        id: foundationId(item.id!),
+        uri: item.id || "",
+        title: item.title || "",
+        score: item.score,
+        matchedTerm: match?.label,
+        matchedProperty: match?.propertyId,
+      };
+    });
+  }
+
+  /**
+   * Resolve the MMS category a Foundation entity is coded with in this release:
+   * the entity itself ("exact"), or the category it is folded into ("ancestor").
+   * Null if the entity is not covered by the MMS.
+   */
+  async linearize(id: string): Promise<ICDLinearization | null> {
+    const foundationUri = `http://id.who.int/icd/entity/${foundationId(id)}`;
+    try {
+      const data = await this.cachedRequest<Record<string, unknown>>(
+        "codeinfo",
+        `/icd/release/11/${this.icd11Release}/mms/lookup?foundationUri=${encodeURIComponent(foundationUri)}`
+      );
+      const source = String(data.source || "").replace("https://", "http://");
+      return {
+        foundationUri,
+        match: source === foundationUri ? "exact" : "ancestor",
+        entity: this.parseEntity(data),
+      };
+    } catch (error) {
+      if (error instanceof NotFoundError) return null;
+      throw error;
     }
-    return children;
   }
 
   // ==================== Common Methods ====================
 
   /**
-   * Get entity by URI
+   * Expand a chapter, block or code into its descendants (pre-order, root first).
+   * Traverses breadth-first, one level at a time through the fetch scheduler,
+   * stopping once maxNodes entities have been fetched. Filter and paging apply
+   * to the flattened list. Returns null if the root does not exist.
    */
-  async getEntityByUri(uri: string): Promise<ICDEntity | null> {
-    let cleanUri = uri;
-    if (cleanUri.startsWith("http://")) {
-      cleanUri = cleanUri.replace("http://", "https://");
+  async expand(root: string, version: string, options: ICDExpansionOptions = {}): Promise<ICDExpansion | null> {
+    const rootEntity = await this.resolveExpansionRoot(root, version);
+    if (!rootEntity) return null;
+
+    const maxNodes = options.maxNodes ?? MAX_EXPANSION_NODES;
+    const rootKey = rootEntity.uri || root;
+    const entities = new Map<string, ICDEntity>([[rootKey, rootEntity]]);
+    // Entities can sit under several parents; each is listed under the first
+    // (shallowest) parent that reached it
+    const owner = new Map<string, string>([[rootKey, ""]]);
+    let level: string[] = [rootKey];
+    let fetched = 1;
+    let truncated = false;
+
+    while (level.length > 0) {
+      const next: string[] = [];
+      for (const key of level) {
+        for (const child of entities.get(key)!.children || []) {
+          if (!owner.has(child)) {
+            owner.set(child, key);
+            next.push(child);
+          }
+        }
+      }
+
+      const budget = Math.max(maxNodes - fetched, 0);
+      if (next.length > budget) {
+        truncated = true;
+        next.length = budget;
+      }
+      if (next.length === 0) break;
+
+      const children = await this.scheduler.map(next, (uri) => this.getEntityByUri(uri));
+      fetched += next.length;
+      level = next.filter((uri, i) => {
+        const child = children[i];
+        if (child) entities.set(uri, child);
+        return child !== null;
+      });
+    }
+
+    // Flatten in hierarchy order
+    const concepts: ICDExpansionConcept[] = [];
+    const visit = (key: string, depth: number) => {
+      const entity = entities.get(key)!;
+      concepts.push({
+        code: entity.code,
+        title: entity.title,
+        uri: entity.uri,
+        classKind: entity.classKind,
+        parent: entity.parent,
+        depth,
+        grouping: !entity.code || GROUPING_KINDS.has(entity.classKind || ""),
+      });
+      for (const uri of entity.children || []) {
+        if (owner.get(uri) === key && entities.has(uri)) {
+          visit(uri, depth + 1);
+        }
+      }
+    };
+    visit(rootKey, 0);
+
+    const terms = (options.filter || "").toLowerCase().split(/\s+/).filter(Boolean);
+    const matching = concepts.filter((concept) => {
+      if (concept.grouping && !options.includeGroupings) return false;
+      const text = `${concept.code} ${concept.title}`.toLowerCase();
+      return terms.every((term) => text.includes(term));
+    });
+
+    const offset = Math.max(options.offset ?? 0, 0);
+    const count = Math.max(options.count ?? DEFAULT_EXPANSION_COUNT, 0);
+
+    return {
+      root: rootEntity,
+      total: matching.length,
+      offset,
+      concepts: matching.slice(offset, offset + count),
+      truncated,
+    };
+  }
+
+  /**
+   * Resolve an expansion root: a code, an ICD-11 chapter number,
+   * an ICD-11 entity ID or a WHO entity URI
+   */
+  private async resolveExpansionRoot(root: string, version: string): Promise<ICDEntity | null> {
+    const trimmed = root.trim();
+
+    if (/^https?:\/\//.test(trimmed)) {
+      if (!/^https?:\/\/id\.who\.int\//.test(trimmed)) {
+        throw new InvalidInputError(`'${trimmed}' is not a WHO ICD entity URI`);
+      }
+      return this.getEntityByUri(trimmed);
+    }
+
+    if (version === "10") {
+      return this.getICD10Code(trimmed.toUpperCase());
+    }
+
+    // Numeric linearization entity IDs (e.g. 1312321); chapter numbers are 1-2 digits
+    if (/^\d{5,}$/.test(trimmed)) {
+      return this.getEntityByUri(`http://id.who.int/icd/release/11/${this.icd11Release}/mms/${trimmed}`);
     }
 
-    const endpoint = cleanUri.replace(API_BASE_URL, "");
+    const code = /^\d$/.test(trimmed) ? `0${trimmed}` : trimmed.toUpperCase();
+    const entity = await this.getICD11Code(code);
+    if (entity) return entity;
+
+    const chapter = (await this.getICD11Chapters()).find((c) => c.code === code);
+    return chapter ? this.getEntityByUri(chapter.uri) : null;
+  }
+
+  /**
+   * Get entity by URI (null if the entity does not exist)
+   */
+  async getEntityByUri(uri: string): Promise<ICDEntity | null> {
+    const endpoint = uri.replace(ENTITY_URI_HOST, "").replace(this.apiBaseUrl, "");
 
     try {
-      const data = await this.apiRequest<Record<string, unknown>>(endpoint);
+      const data = await this.cachedRequest<Record<string, unknown>>("entity", endpoint);
       return this.parseEntity(data);
     } catch (error) {
-      console.warn(`Failed to get entity by URI ${uri}:`, error);
-      return null;
+      if (error instanceof NotFoundError) return null;
+      throw error;
     }
   }
 
+  /**
+   * Get several entities by URI in parallel (bounded by the fetch scheduler).
+   * Preserves input order and skips entities that could not be fetched.
+   */
+  async getEntitiesByUri(uris: string[]): Promise<ICDEntity[]> {
+    const entities = await this.scheduler.map(uris, (uri) => this.getEntityByUri(uri));
+    return entities.filter((entity): entity is ICDEntity => entity !== null);
+  }
+
+  /**
+   * Resolve chapter URIs into chapter summaries
+   */
+  private async toChapters(uris: string[]): Promise<ICDChapter[]> {
+    const entities = await this.scheduler.map(uris, (uri) => this.getEntityByUri(uri));
+
+    const chapters: ICDChapter[] = [];
+    entities.forEach((entity, i) => {
+      if (entity) {
+        chapters.push({ code: entity.code, title: entity.title, uri: uris[i] });
+      }
+    });
+    return chapters;
+  }
+
+  /**
+   * Parse a list of labelled terms (inclusions, synonyms, ...) into strings
+   */
+  private parseLabels(value: unknown): string[] | undefined {
+    if (!Array.isArray(value)) return undefined;
+
+    return value.map((item: unknown) => {
+      if (typeof item === "object" && item !== null) {
+        const label = (item as Record<string, unknown>).label;
+        if (typeof label === "object" && label !== null) {
+          return (label as Record<string, unknown>)["@value"] as string || JSON.stringify(item);
+        }
+        return (item as Record<string, unknown>).label as string || JSON.stringify(item);
+      }
+      return String(item);
+    });
+  }
+
   /**
    * Parse API response into ICDEntity
    */
@@ -408,9 +983,11 @@ export class WHOICDClient {
     // Extract code
     const code = (data.code as string) || (data.theCode as string) || (data.codeRange as string) || "";
 
-    // Get title
+    // Get title (and the language WHO served it in, which may be a fallback)
     let title = data.title;
+    let language: string | undefined;
     if (typeof title === "object" && title !== null) {
+      language = (title as Record<string, unknown>)["@language"] as string | undefined;
       title = (title as Record<string, unknown>)["@value"] || JSON.stringify(title);
     }
 
@@ -426,36 +1003,9 @@ export class WHOICDClient {
       longDefinition = (longDefinition as Record<string, unknown>)["@value"];
     }
 
-    // Get inclusions
-    let inclusions: string[] | undefined;
-    const inclusionData = data.inclusion || data.indexTerm;
-    if (Array.isArray(inclusionData)) {
-      inclusions = inclusionData.map((i: unknown) => {
-        if (typeof i === "object" && i !== null) {
-          const label = (i as Record<string, unknown>).label;
-          if (typeof label === "object" && label !== null) {
-            return (label as Record<string, unknown>)["@value"] as string || JSON.stringify(i);
-          }
-          return (i as Record<string, unknown>).label as string || JSON.stringify(i);
-        }
-        return String(i);
-      });
-    }
-
-    // Get exclusions
-    let exclusions: string[] | undefined;
-    if (Array.isArray(data.exclusion)) {
-      exclusions = data.exclusion.map((e: unknown) => {
-        if (typeof e === "object" && e !== null) {
-          const label = (e as Record<string, unknown>).label;
-          if (typeof label === "object" && label !== null) {
-            return (label as Record<string, unknown>)["@value"] as string || JSON.stringify(e);
-          }
-          return (e as Record<string, unknown>).label as string || JSON.stringify(e);
-        }
-        return String(e);
-      });
-    }
+    // Get inclusions and exclusions
+    const inclusions = this.parseLabels(data.inclusion || data.indexTerm);
+    const exclusions = this.parseLabels(data.exclusion);
 
     // Get coding note
     let codingNote = data.codingNote;
@@ -482,6 +1032,22 @@ export class WHOICDClient {
     // Get browser URL
     const browserUrl = data.browserUrl as string | undefined;
 
+    // Get postcoordination axes
+    let postcoordination: ICDPostcoordinationAxis[] | undefined;
+    if (Array.isArray(data.postcoordinationScale)) {
+      postcoordination = data.postcoordinationScale.map((scale: Record<string, unknown>) => {
+        const axis = String(scale.axisName || "").split("/").pop() || "";
+        const entities = scale.scaleEntity;
+        return {
+          axis,
+          label: axisLabel(axis),
+          required: String(scale.requiredPostcoordination) === "true",
+          allowMultiple: String(scale.allowMultipleValues || "NotAllowed"),
+          scaleEntities: Array.isArray(entities) ? (entities as string[]) : entities ? [String(entities)] : [],
+        };
+      });
+    }
+
     return {
       code,
       title: String(title || ""),
@@ -495,6 +1061,8 @@ export class WHOICDClient {
       uri: (data["@id"] as string) || (data.id as string) || undefined,
       classKind: data.classKind as string | undefined,
       browserUrl,
+      language,
+      postcoordination,
     };
   }
 }
@@ -0,0 +1,135 @@
+/**
+ * ICD MCP Server - Postcoordination Cluster Expressions
+ *
+ * Parses and validates ICD-11 cluster expressions such as BA00&XS28 or
+ * BA00/CA40&XT5R: "/" joins stem codes, "&" attaches extension codes
+ * (chapter X) to the preceding stem.
+ */
+
+import { WHOICDClient } from "./client";
+import { ICDEntity } from "./types";
+import { ICDError, InvalidInputError } from "./errors";
+import { normalizeCode } from "./codes";
+
+const COMPONENT_CODE = /^[0-9A-Z][0-9A-Z.]*$/;
+
+export type ClusterRole = "stem" | "extension";
+
+export interface ClusterComponent {
+  code: string;
+  role: ClusterRole;
+  // Index of the "/"-separated stem group this component belongs to
+  group: number;
+  status: "valid" | "invalid" | "unverified";
+  entity?: ICDEntity;
+  reason?: string;
+}
+
+export interface ClusterAnalysis {
+  expression: string;
+  status: "valid" | "invalid" | "unverified";
+  components: ClusterComponent[];
+  issues: string[];
+}
+
+/**
+ * True if the string uses cluster syntax
+ */
+export function isClusterExpression(code: string): boolean {
+  return /[&/]/.test(code);
+}
+
+/**
+ * Extension codes live in chapter X (e.g. XS28, XT5R, XA0060)
+ */
+export function isExtensionCode(code: string): boolean {
+  return normalizeCode(code).startsWith("X");
+}
+
+/**
+ * Split a cluster expression into components and report syntax issues
+ */
+export function parseCluster(expression: string): { components: ClusterComponent[]; issues: string[] } {
+  const components: ClusterComponent[] = [];
+  const issues: string[] = [];
+  const normalized = normalizeCode(expression).replace(/\s+/g, "");
+
+  normalized.split("/").forEach((groupText, group) => {
+    const parts = groupText.split("&");
+
+    parts.forEach((part, position) => {
+      if (!part) {
+        issues.push(`Empty component in group ${group + 1} (check for stray "&" or "/")`);
+        return;
+      }
+      if (!COMPONENT_CODE.test(part)) {
+        issues.push(`'${part}' is not a well-formed ICD-11 code`);
+        return;
+      }
+
+      const role: ClusterRole = isExtensionCode(part) ? "extension" : "stem";
+      if (role === "extension" && position === 0) {
+        issues.push(
+          group === 0
+            ? `Extension code ${part} cannot be the first element of a cluster`
+            : `Extension code ${part} cannot follow "/" — it must be attached to a stem with "&"`
+        );
+      }
+
+      if (role === "stem" && position > 0) {
+        issues.push(`Stem code ${part} must be joined with "/", not "&" (only extension codes follow "&")`);
+      }
+
+      components.push({ code: part, role, group, status: "valid" });
+    });
+  });
+
+  if (components.length > 0 && components.every((c) => c.role === "extension")) {
+    issues.push("Extension codes cannot be used standalone; a stem code is required");
+  }
+
+  return { components, issues };
+}
+
+/**
+ * Parse a cluster and validate every component against the client's ICD-11 release
+ */
+export async function analyzeCluster(expression: string, client: WHOICDClient): Promise<ClusterAnalysis> {
+  const { components, issues } = parseCluster(expression);
+
+  await Promise.all(
+    components.map(async (component) => {
+      try {
+        const entity = await client.getICD11Code(component.code);
+        if (entity) {
+          component.entity = entity;
+        } else {
+          component.status = "invalid";
+          component.reason = "not found in release";
+        }
+      } catch (error) {
+        if (error instanceof InvalidInputError) {
+          component.status = "invalid";
+          component.reason = error.message;
+        } else if (error instanceof ICDError) {
+          component.status = "unverified";
+          component.reason = error.message;
+        } else {
+          throw error;
+        }
+      }
+    })
+  );
+
+  for (const component of components) {
+    if (component.status === "invalid") {
+      issues.push(`${component.code} is not a valid ICD-11 code (${component.reason})`);
+    }
+  }
+
+  const status = issues.length > 0
+    ? "invalid"
+    : components.some((c) => c.status === "unverified") ? "unverified" : "valid";
+
+  return { expression: normalizeCode(expression).replace(/\s+/g, ""), status, components, issues };
+}
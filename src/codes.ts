@@ -0,0 +1,28 @@
+/**
+ * ICD MCP Server - Code Syntax Helpers
+ */
+
+// ICD-10: letter + two digits, optional decimal subdivision (e.g. J18, J18.9)
+const ICD10_CODE = /^[A-Z]\d{2}(\.\d{1,2})?$/;
+
+// ICD-11 MMS: second character is always a letter (e.g. BA00, 1A00.1, XS28)
+const ICD11_CODE = /^[0-9A-Z][A-Z]\d[0-9A-Z](\.[0-9A-Z]{1,2})*$/;
+
+export type ICDVersion = "10" | "11";
+
+/**
+ * Normalize user-entered codes (trim, uppercase)
+ */
+export function normalizeCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Infer the ICD version from code syntax, or null if ambiguous
+ */
+export function detectVersion(code: string): ICDVersion | null {
+  const normalized = normalizeCode(code);
+  if (ICD10_CODE.test(normalized)) return "10";
+  if (ICD11_CODE.test(normalized)) return "11";
+  return null;
+}
@@ -0,0 +1,149 @@
+/**
+ * ICD MCP Server - Release Diff
+ *
+ * Compares a code, subtree or chapter between two releases. Entities are
+ * matched by their stable ID (ICD-11: the linearization entity ID, which is
+ * shared across MMS releases; ICD-10: the code), so a retitled or recoded
+ * entity is reported as changed rather than as removed + added.
+ */
+
+import { WHOICDClient, MAX_EXPANSION_NODES } from "./client";
+import { ICDExpansionConcept } from "./types";
+
+export interface DiffConcept {
+  id: string;
+  code: string;
+  title: string;
+}
+
+export interface DiffChange extends DiffConcept {
+  // Value in the "from" release (title, code or parent)
+  before: string;
+  // Value in the "to" release
+  after: string;
+}
+
+export interface ReleaseDiff {
+  root: string;
+  version: string;
+  from: string;
+  to: string;
+  added: DiffConcept[];
+  removed: DiffConcept[];
+  renamed: DiffChange[];
+  recoded: DiffChange[];
+  reparented: DiffChange[];
+  unchanged: number;
+  // True when either side hit the expansion node cap
+  truncated: boolean;
+}
+
+/**
+ * Release-independent entity ID
+ * (http://id.who.int/icd/release/11/2024-01/mms/1234/other → 1234/other)
+ */
+export function entityId(uri: string | undefined, version: string): string | undefined {
+  if (!uri) return undefined;
+  const match = version === "10"
+    ? uri.match(/\/release\/10\/[^/]+\/(.+)$/)
+    : uri.match(/\/mms\/(.+)$/);
+  // Classification roots have no entity ID; drop the release instead
+  return match?.[1] || uri.replace(/\/release\/(10|11)\/[^/]+/, "/release/$1");
+}
+
+/**
+ * Index an expansion by entity ID
+ */
+function index(concepts: ICDExpansionConcept[], version: string): Map<string, ICDExpansionConcept> {
+  const byId = new Map<string, ICDExpansionConcept>();
+  for (const concept of concepts) {
+    const id = entityId(concept.uri, version) || concept.code;
+    if (id) byId.set(id, concept);
+  }
+  return byId;
+}
+
+/**
+ * Label a parent by code (or title for uncoded blocks), falling back to its ID
+ */
+function parentLabel(id: string | undefined, byId: Map<string, ICDExpansionConcept>): string {
+  if (!id) return "(none)";
+  const parent = byId.get(id);
+  return parent ? parent.code || parent.title : id;
+}
+
+/**
+ * Compare a subtree between the releases targeted by two clients
+ */
+export async function diffReleases(
+  root: string,
+  version: string,
+  fromClient: WHOICDClient,
+  toClient: WHOICDClient
+): Promise<ReleaseDiff | null> {
+  const options = { includeGroupings: true, count: MAX_EXPANSION_NODES };
+  const [before, after] = await Promise.all([
+    fromClient.expand(root, version, options),
+    toClient.expand(root, version, options),
+  ]);
+
+  if (!before && !after) return null;
+
+  const fromIndex = index(before?.concepts || [], version);
+  const toIndex = index(after?.concepts || [], version);
+  const concept = (id: string, c: ICDExpansionConcept): DiffConcept => ({ id, code: c.code, title: c.title });
+
+  const diff: ReleaseDiff = {
+    root,
+    version,
+    from: fromClient.getRelease(version),
+    to: toClient.getRelease(version),
+    added: [],
+    removed: [],
+    renamed: [],
+    recoded: [],
+    reparented: [],
+    unchanged: 0,
+    truncated: !!before?.truncated || !!after?.truncated,
+  };
+
+  for (const [id, old] of fromIndex) {
+    const current = toIndex.get(id);
+    if (!current) {
+      diff.removed.push(concept(id, old));
+      continue;
+    }
+
+    let changed = false;
+    if (old.title !== current.title) {
+      diff.renamed.push({ ...concept(id, current), before: old.title, after: current.title });
+      changed = true;
+    }
+    if (old.code !== current.code) {
+      diff.recoded.push({ ...concept(id, current), before: old.code, after: current.code });
+      changed = true;
+    }
+
+    // The subtree root's parent lies outside both expansions; compare it by ID only
+    const oldParent = entityId(old.parent, version);
+    const newParent = entityId(current.parent, version);
+    if (oldParent !== newParent) {
+      diff.reparented.push({
+        ...concept(id, current),
+        before: parentLabel(oldParent, fromIndex),
+        after: parentLabel(newParent, toIndex),
+      });
+      changed = true;
+    }
+
+    if (!changed) diff.unchanged++;
+  }
+
+  for (const [id, current] of toIndex) {
+    if (!fromIndex.has(id)) {
+      diff.added.push(concept(id, current));
+    }
+  }
+
+  return diff;
+}
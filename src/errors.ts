@@ -0,0 +1,58 @@
+/**
+ * ICD MCP Server - Error Types
+ *
+ * Distinguishes "the code does not exist" from "the WHO API could not answer"
+ * so callers never report an unverifiable code as invalid.
+ */
+
+export type ICDErrorKind =
+  | "not_found"
+  | "rate_limited"
+  | "auth_failed"
+  | "upstream_unavailable"
+  | "invalid_input"
+  | "unauthorized"
+  | "api_error";
+
+export class ICDError extends Error {
+  readonly kind: ICDErrorKind = "api_error";
+
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/** The requested code or entity does not exist in the release */
+export class NotFoundError extends ICDError {
+  readonly kind = "not_found";
+}
+
+/** The WHO API rate limit was hit and retries were exhausted */
+export class RateLimitedError extends ICDError {
+  readonly kind = "rate_limited";
+
+  constructor(message: string, readonly retryAfterMs?: number) {
+    super(message);
+  }
+}
+
+/** WHO credentials were rejected or the token endpoint refused them */
+export class AuthFailedError extends ICDError {
+  readonly kind = "auth_failed";
+}
+
+/** The WHO API timed out, returned 5xx, or the circuit breaker is open */
+export class UpstreamUnavailableError extends ICDError {
+  readonly kind = "upstream_unavailable";
+}
+
+/** Missing or malformed parameters */
+export class InvalidInputError extends ICDError {
+  readonly kind = "invalid_input";
+}
+
+/** The caller sent no credentials, or credentials this server does not accept */
+export class UnauthorizedError extends ICDError {
+  readonly kind = "unauthorized";
+}
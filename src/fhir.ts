@@ -0,0 +1,371 @@
+/**
+ * ICD MCP Server - FHIR R4 Terminology Operations
+ *
+ * CodeSystem/$lookup, CodeSystem/$validate-code and ValueSet/$expand for
+ * ICD-10 and ICD-11 MMS. Built on WHOICDClient lookup/validate/expand.
+ *
+ * Value sets use implicit URLs: {system}?fhir_vs=isa/{code} is the code
+ * (chapter, block or category) and all its descendants.
+ */
+
+import { WHOICDClient } from "./client";
+import { ICDEntity } from "./types";
+import { ICDVersion } from "./codes";
+import { isClusterExpression, analyzeCluster } from "./cluster";
+import {
+  ICDError,
+  NotFoundError,
+  RateLimitedError,
+  AuthFailedError,
+  UpstreamUnavailableError,
+  InvalidInputError,
+} from "./errors";
+
+export const FHIR_BASE_PATH = "/fhir";
+export const ICD10_SYSTEM = "http://hl7.org/fhir/sid/icd-10";
+export const ICD11_SYSTEM = "http://id.who.int/icd/release/11/mms";
+
+const FHIR_CONTENT_TYPE = "application/fhir+json";
+
+interface FhirCoding {
+  system?: string;
+  version?: string;
+  code?: string;
+  display?: string;
+}
+
+interface FhirParameter {
+  name: string;
+  valueString?: string;
+  valueCode?: string;
+  valueUri?: string;
+  valueBoolean?: boolean;
+  valueInteger?: number;
+  valueCoding?: FhirCoding;
+  part?: FhirParameter[];
+}
+
+interface FhirParameters {
+  resourceType: "Parameters";
+  parameter: FhirParameter[];
+}
+
+// Flattened operation input (query string or Parameters body)
+type OperationInput = Record<string, string | undefined>;
+
+/**
+ * Build a FHIR JSON response
+ */
+function fhirResponse(resource: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(resource, null, 2), {
+    status,
+    headers: {
+      "Content-Type": FHIR_CONTENT_TYPE,
+      "Access-Control-Allow-Origin": "*",
+    },
+  });
+}
+
+/**
+ * Build an OperationOutcome error response
+ */
+export function fhirError(status: number, code: string, diagnostics: string): Response {
+  return fhirResponse(
+    {
+      resourceType: "OperationOutcome",
+      issue: [{ severity: "error", code, diagnostics }],
+    },
+    status
+  );
+}
+
+/**
+ * Map client errors to HTTP status + OperationOutcome issue type
+ */
+function errorResponse(error: unknown): Response {
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof InvalidInputError) return fhirError(400, "invalid", message);
+  if (error instanceof NotFoundError) return fhirError(404, "not-found", message);
+  if (error instanceof RateLimitedError) return fhirError(429, "throttled", message);
+  if (error instanceof AuthFailedError) return fhirError(502, "security", message);
+  if (error instanceof UpstreamUnavailableError) return fhirError(503, "transient", message);
+  if (error instanceof ICDError) return fhirError(502, "exception", message);
+  return fhirError(500, "exception", message);
+}
+
+/**
+ * Map a FHIR system URI to an ICD version
+ */
+export function systemVersion(system: string | undefined): ICDVersion {
+  if (!system) {
+    throw new InvalidInputError("system (or url) is required");
+  }
+  if (system === ICD10_SYSTEM) return "10";
+  if (system === ICD11_SYSTEM) return "11";
+  throw new InvalidInputError(`Unsupported code system '${system}'. Supported: ${ICD10_SYSTEM}, ${ICD11_SYSTEM}`);
+}
+
+/**
+ * System URI for an ICD version
+ */
+export function systemUri(version: ICDVersion): string {
+  return version === "10" ? ICD10_SYSTEM : ICD11_SYSTEM;
+}
+
+/**
+ * Read operation parameters from the query string (GET) or a Parameters body (POST)
+ */
+async function readInput(request: Request): Promise<OperationInput> {
+  const input: OperationInput = {};
+
+  if (request.method === "GET") {
+    for (const [name, value] of new URL(request.url).searchParams) {
+      input[name] = value;
+    }
+    return input;
+  }
+
+  let body: FhirParameters;
+  try {
+    body = (await request.json()) as FhirParameters;
+  } catch {
+    throw new InvalidInputError("Request body must be a FHIR Parameters resource");
+  }
+  if (body?.resourceType !== "Parameters" || !Array.isArray(body.parameter)) {
+    throw new InvalidInputError("Request body must be a FHIR Parameters resource");
+  }
+
+  for (const param of body.parameter) {
+    if (param.valueCoding) {
+      input.system ??= param.valueCoding.system;
+      input.code ??= param.valueCoding.code;
+      input.display ??= param.valueCoding.display;
+      input.version ??= param.valueCoding.version;
+      continue;
+    }
+    input[param.name] = param.valueString ?? param.valueCode ?? param.valueUri
+      ?? (param.valueBoolean !== undefined ? String(param.valueBoolean) : undefined)
+      ?? (param.valueInteger !== undefined ? String(param.valueInteger) : undefined);
+  }
+
+  return input;
+}
+
+/**
+ * Target the requested code system version (release), if it differs from the default
+ */
+async function forRelease(release: string | undefined, version: ICDVersion, client: WHOICDClient): Promise<WHOICDClient> {
+  if (!release || release === client.getRelease(version)) {
+    return client;
+  }
+  await client.assertRelease(version, release);
+  return client.withOptions(version === "10" ? { icd10Release: release } : { icd11Release: release });
+}
+
+function property(code: string, value: string, type: "valueString" | "valueCode" = "valueString"): FhirParameter {
+  return { name: "property", part: [{ name: "code", valueCode: code }, { name: type, [type]: value }] };
+}
+
+/**
+ * CodeSystem/$lookup
+ */
+async function lookup(input: OperationInput, client: WHOICDClient): Promise<Response> {
+  const version = systemVersion(input.system);
+  const code = input.code;
+  if (!code) throw new InvalidInputError("code is required");
+  if (isClusterExpression(code)) {
+    throw new InvalidInputError("$lookup does not support postcoordinated expressions; use $validate-code");
+  }
+  client = await forRelease(input.version, version, client);
+
+  const entity = version === "10" ? await client.getICD10Code(code) : await client.getICD11Code(code);
+  if (!entity) {
+    throw new NotFoundError(`Code '${code}' not found in ${systemUri(version)}`);
+  }
+
+  const parent: ICDEntity | null = entity.parent ? await client.getEntityByUri(entity.parent) : null;
+
+  const parameter: FhirParameter[] = [
+    { name: "name", valueString: version === "10" ? "ICD-10" : "ICD-11 MMS" },
+    { name: "version", valueString: client.getRelease(version) },
+    { name: "display", valueString: entity.title },
+  ];
+
+  if (entity.classKind) parameter.push(property("kind", entity.classKind, "valueCode"));
+  if (parent?.code) parameter.push(property("parent", parent.code, "valueCode"));
+  if (entity.definition) parameter.push(property("definition", entity.definition));
+  if (entity.codingNote) parameter.push(property("codingNote", entity.codingNote));
+  for (const inclusion of entity.inclusions || []) {
+    parameter.push(property("inclusion", inclusion));
+  }
+  for (const exclusion of entity.exclusions || []) {
+    parameter.push(property("exclusion", exclusion));
+  }
+  if (entity.children && entity.children.length > 0) {
+    parameter.push({ name: "property", part: [{ name: "code", valueCode: "leaf" }, { name: "valueBoolean", valueBoolean: false }] });
+  }
+
+  return fhirResponse({ resourceType: "Parameters", parameter });
+}
+
+/**
+ * CodeSystem/$validate-code
+ */
+async function validateCode(input: OperationInput, client: WHOICDClient): Promise<Response> {
+  const version = systemVersion(input.url ?? input.system);
+  const code = input.code;
+  if (!code) throw new InvalidInputError("code is required");
+  client = await forRelease(input.version, version, client);
+
+  const result = (valid: boolean, message?: string, display?: string): Response => {
+    const parameter: FhirParameter[] = [{ name: "result", valueBoolean: valid }];
+    if (message) parameter.push({ name: "message", valueString: message });
+    if (display) parameter.push({ name: "display", valueString: display });
+    return fhirResponse({ resourceType: "Parameters", parameter });
+  };
+
+  if (isClusterExpression(code)) {
+    if (version === "10") return result(false, "Postcoordinated expressions are ICD-11 only");
+    const analysis = await analyzeCluster(code, client);
+    if (analysis.status === "unverified") {
+      throw new UpstreamUnavailableError(`Could not verify '${code}' against the WHO ICD-API`);
+    }
+    const display = analysis.components.map((c) => c.entity?.title || c.code).join(" & ");
+    return analysis.status === "valid"
+      ? result(true, undefined, display)
+      : result(false, analysis.issues.join("; "));
+  }
+
+  const validation = await client.validateCode(code, version);
+
+  if (validation.status === "unverified") {
+    throw new UpstreamUnavailableError(`Could not verify '${code}': ${validation.reason}`);
+  }
+  if (validation.status === "invalid") {
+    return result(false, `Code '${code}' is not valid in ${systemUri(version)}${validation.reason ? `: ${validation.reason}` : ""}`);
+  }
+
+  const title = validation.entity!.title;
+  if (input.display && input.display.trim().toLowerCase() !== title.toLowerCase()) {
+    return result(false, `Display '${input.display}' does not match '${title}' for code '${code}'`, title);
+  }
+
+  return result(true, undefined, title);
+}
+
+/**
+ * Parse an implicit value set URL ({system}?fhir_vs=isa/{code})
+ */
+function parseValueSetUrl(url: string | undefined): { system: string; version: ICDVersion; root: string } {
+  if (!url) throw new InvalidInputError("url is required");
+
+  const [system, query = ""] = url.split("?", 2);
+  const version = systemVersion(system);
+  const fhirVs = new URLSearchParams(query).get("fhir_vs");
+
+  if (fhirVs === null) {
+    throw new InvalidInputError(`Unsupported value set '${url}'. Use ${system}?fhir_vs=isa/{code}`);
+  }
+  if (!fhirVs.startsWith("isa/") || fhirVs.length <= 4) {
+    throw new InvalidInputError(`Unsupported fhir_vs '${fhirVs}'. Only isa/{code} is supported; expanding a whole classification is too costly`);
+  }
+
+  return { system, version, root: fhirVs.slice(4) };
+}
+
+/**
+ * Parse a non-negative integer operation parameter
+ */
+function intParam(value: string | undefined, name: string): number | undefined {
+  if (value === undefined || value === "") return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new InvalidInputError(`${name} must be a non-negative integer`);
+  }
+  return parsed;
+}
+
+/**
+ * ValueSet/$expand
+ */
+async function expand(input: OperationInput, client: WHOICDClient): Promise<Response> {
+  const { system, version, root } = parseValueSetUrl(input.url);
+
+  // system-version is "{system}|{release}"
+  const systemVersionParam = input["system-version"];
+  if (systemVersionParam && !systemVersionParam.startsWith(`${system}|`)) {
+    throw new InvalidInputError(`system-version '${systemVersionParam}' does not match ${system}`);
+  }
+  client = await forRelease(systemVersionParam?.slice(system.length + 1), version, client);
+  const release = client.getRelease(version);
+
+  const expansion = await client.expand(root, version, {
+    filter: input.filter,
+    offset: intParam(input.offset, "offset"),
+    count: intParam(input.count, "count"),
+    includeGroupings: input.excludeNotForUI !== "true",
+  });
+  if (!expansion) {
+    throw new NotFoundError(`Code '${root}' not found in ${system}`);
+  }
+
+  const parameter: FhirParameter[] = [
+    { name: "version", valueUri: `${system}|${release}` },
+    { name: "offset", valueInteger: expansion.offset },
+  ];
+  if (input.filter) parameter.push({ name: "filter", valueString: input.filter });
+  if (input.count) parameter.push({ name: "count", valueInteger: Number(input.count) });
+  if (input.excludeNotForUI) parameter.push({ name: "excludeNotForUI", valueBoolean: input.excludeNotForUI === "true" });
+
+  return fhirResponse({
+    resourceType: "ValueSet",
+    url: input.url,
+    status: "active",
+    expansion: {
+      // Incomplete expansions carry the standard too-costly flag and no total
+      ...(expansion.truncated
+        ? { extension: [{ url: "http://hl7.org/fhir/StructureDefinition/valueset-toocostly", valueBoolean: true }] }
+        : { total: expansion.total }),
+      identifier: `urn:uuid:${crypto.randomUUID()}`,
+      timestamp: new Date().toISOString(),
+      offset: expansion.offset,
+      parameter,
+      contains: expansion.concepts.map((concept) => ({
+        system,
+        version: release,
+        ...(concept.grouping ? { abstract: true } : {}),
+        ...(concept.code ? { code: concept.code } : {}),
+        display: concept.title,
+      })),
+    },
+  });
+}
+
+/**
+ * Route a request under /fhir to the matching operation
+ */
+export async function handleFhirRequest(request: Request, client: WHOICDClient): Promise<Response> {
+  const path = new URL(request.url).pathname.slice(FHIR_BASE_PATH.length);
+
+  const operations: Record<string, (input: OperationInput, client: WHOICDClient) => Promise<Response>> = {
+    "/CodeSystem/$lookup": lookup,
+    "/CodeSystem/$validate-code": validateCode,
+    "/ValueSet/$expand": expand,
+  };
+
+  const operation = operations[path];
+  if (!operation) {
+    return fhirError(404, "not-supported", `Unsupported FHIR operation: ${path}`);
+  }
+  if (request.method !== "GET" && request.method !== "POST") {
+    return fhirError(405, "not-supported", `Method ${request.method} not allowed`);
+  }
+
+  try {
+    const input = await readInput(request);
+    const localized = input.displayLanguage ? client.withOptions({ language: input.displayLanguage }) : client;
+    return await operation(input, localized);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -2,13 +2,42 @@
  * ICD MCP Server - Action Handlers
  */
 
-import { WHOICDClient } from "./client";
-import { ToolResult, ICDParamsType, ICDEntity } from "./types";
+import { WHOICDClient, MAX_EXPANSION_NODES } from "./client";
+import { ToolResult, ICDParamsType, ICDEntity, ICDEntitySummary, ICDTranslation, HandlerServices } from "./types";
+import { Crosswalk } from "./mapping";
+import { ICD10SearchIndex } from "./searchindex";
+import { ICDVersion, detectVersion } from "./codes";
+import { isClusterExpression, isExtensionCode, analyzeCluster } from "./cluster";
+import { FetchScheduler } from "./scheduler";
+import { diffReleases, DiffConcept, DiffChange } from "./diff";
+import { codeNarrative, MAX_NARRATIVE_PHRASES } from "./narrative";
+import {
+  ICDError,
+  NotFoundError,
+  RateLimitedError,
+  AuthFailedError,
+  UpstreamUnavailableError,
+  InvalidInputError,
+} from "./errors";
+
+// Batch limits: codes per call, and codes resolved concurrently
+const MAX_BATCH_CODES = 500;
+const BATCH_CONCURRENCY = 8;
+
+// Languages per multilingual lookup
+const MAX_LANGUAGES = 10;
+
+// Autocode defaults: candidates shown, and the score needed to commit to a code
+const DEFAULT_AUTOCODE_CANDIDATES = 5;
+const DEFAULT_AUTOCODE_MIN_SCORE = 0.75;
+
+// Entries listed per diff section in markdown (structured output has all)
+const MAX_DIFF_LINES = 50;
 
 /**
  * Format an ICD entity for display
  */
-function formatEntity(entity: ICDEntity, version: string): string {
+export function formatEntity(entity: ICDEntity, version: string): string {
   const lines: string[] = [`**${entity.code}**: ${entity.title}`];
 
   if (entity.definition) {
@@ -43,6 +72,11 @@ function formatEntity(entity: ICDEntity, version: string): string {
     }
   }
 
+  if (entity.postcoordination && entity.postcoordination.length > 0) {
+    const axes = entity.postcoordination.map((a) => (a.required ? `${a.label} (required)` : a.label));
+    lines.push(`\n**Postcoordination axes:** ${axes.join(", ")}`);
+  }
+
   if (entity.browserUrl) {
     lines.push(`\n**Browser:** ${entity.browserUrl}`);
   }
@@ -52,84 +86,268 @@ function formatEntity(entity: ICDEntity, version: string): string {
   return lines.join("\n");
 }
 
+/**
+ * Summarize an entity for structured (JSON) output
+ */
+function summarize(entity: ICDEntity): ICDEntitySummary {
+  return {
+    code: entity.code,
+    title: entity.title,
+    uri: entity.uri,
+    classKind: entity.classKind,
+    hasChildren: !!entity.children && entity.children.length > 0,
+  };
+}
+
+/**
+ * Label a WHO property ID for display (e.g. NarrowerTerm → "narrower term")
+ */
+function propertyLabel(propertyId: string | undefined, fallback: string): string {
+  return propertyId ? propertyId.replace(/([a-z])([A-Z])/g, "$1 $2").toLowerCase() : fallback;
+}
+
+/**
+ * Build a tool result carrying both the markdown text and the structured payload
+ */
+function respond(
+  text: string,
+  data: Record<string, unknown>,
+  version?: string,
+  isError?: boolean
+): ToolResult {
+  const result: ToolResult = {
+    content: [{ type: "text", text }],
+    structuredContent: { version, data },
+  };
+  if (isError) {
+    result.isError = true;
+  }
+  return result;
+}
+
 /**
  * Main action dispatcher
  */
 export async function handleAction(
   params: ICDParamsType,
-  client: WHOICDClient
+  client: WHOICDClient,
+  services: HandlerServices = {}
 ): Promise<ToolResult> {
+  let result: ToolResult;
   try {
-    const version = params.version || "11";
-
-    switch (params.action) {
-      case "lookup":
-        if (!params.code) throw new Error("code required for lookup");
-        return await handleLookup(params.code, version, client);
-
-      case "search":
-        if (!params.query) throw new Error("query required for search");
-        if (version === "10") {
-          return {
-            content: [
-              {
-                type: "text",
-                text: "ICD-10 search is not supported by the WHO API. Use ICD-11 search or lookup by code.\n\nTry: {\"action\": \"search\", \"query\": \"pneumonia\", \"version\": \"11\"}",
-              },
-            ],
-            isError: true,
-          };
-        }
-        return await handleSearch(params.query, params.max_results || 10, params.chapter, client);
+    result = await dispatch(params, client, services);
+  } catch (error) {
+    result = respond(formatError(error), { error: errorData(error) }, undefined, true);
+  }
+
+  // Every result carries the documented envelope: { action, version?, data }.
+  // Reference actions (coding_rules, overview, help) carry their text as data.
+  result.structuredContent = {
+    action: params.action,
+    ...(result.structuredContent ?? { data: { text: result.content.map((c) => c.text).join("\n") } }),
+  };
+
+  if (params.output === "json") {
+    result.content = [{ type: "text", text: JSON.stringify(result.structuredContent, null, 2) }];
+  }
 
-      case "chapters":
-        return await handleChapters(version, client);
+  return result;
+}
 
-      case "children":
-        if (!params.code) throw new Error("code required for children");
-        return await handleChildren(params.code, version, client);
+async function dispatch(
+  params: ICDParamsType,
+  client: WHOICDClient,
+  services: HandlerServices
+): Promise<ToolResult> {
+  // A bare ICD-10 release (e.g. "2016") implies version 10
+  if (params.release && !params.version && /^\d{4}$/.test(params.release)) {
+    params = { ...params, version: "10" };
+  }
+  client = await withCallOptions(params, client);
 
-      case "autocode":
-        if (!params.query) throw new Error("query required for autocode (clinical description text)");
-        return await handleAutocode(params.query, client);
+  if (params.codes && params.codes.length > 0) {
+    if (params.action === "lookup" || params.action === "validate" || params.action === "ancestors") {
+      return await handleBatch(params.action, params.codes, params.version, client);
+    }
+    throw new InvalidInputError(`codes is only supported for lookup, validate and ancestors`);
+  }
 
-      case "browse":
-        return await handleBrowse(params.code, version, client);
+  const version = resolveVersion(params.code, params.version);
 
-      case "ancestors":
-        if (!params.code) throw new Error("code required for ancestors");
-        return await handleAncestors(params.code, version, client);
+  switch (params.action) {
+    case "lookup":
+      if (!params.code) throw new InvalidInputError("code required for lookup");
+      if (params.languages && params.languages.length > 0) {
+        return await handleMultilingualLookup(params.code, version, params.languages, client);
+      }
+      return await handleLookup(params.code, version, client);
+
+    case "search":
+      if (!params.query) throw new InvalidInputError("query required for search");
+      if (version === "10") {
+        return await handleICD10Search(params.query, params.max_results || 10, params.chapter, client, services.icd10Index);
+      }
+      return await handleSearch(params.query, params.max_results || 10, params.chapter, client);
+
+    case "chapters":
+      return await handleChapters(version, client);
+
+    case "children":
+      if (!params.code) throw new InvalidInputError("code required for children");
+      return await handleChildren(params.code, version, client);
+
+    case "autocode":
+      if (!params.query) throw new InvalidInputError("query required for autocode (clinical description text)");
+      return await handleAutocode(
+        params.query,
+        params.max_results || DEFAULT_AUTOCODE_CANDIDATES,
+        params.min_score ?? DEFAULT_AUTOCODE_MIN_SCORE,
+        client
+      );
+
+    case "code_note":
+      if (!params.query) throw new InvalidInputError("query required for code_note (clinical note text)");
+      return await handleCodeNote(params.query, params.min_score ?? DEFAULT_AUTOCODE_MIN_SCORE, client);
+
+    case "browse":
+      return await handleBrowse(params.code, version, client);
+
+    case "ancestors":
+      if (!params.code) throw new InvalidInputError("code required for ancestors");
+      return await handleAncestors(params.code, version, client);
+
+    case "validate":
+      if (!params.code) throw new InvalidInputError("code required for validate");
+      return await handleValidate(params.code, version, client);
+
+    case "expand":
+      if (!params.code) throw new InvalidInputError("code required for expand (chapter, block or code)");
+      return await handleExpand(params.code, version, params, client);
+
+    case "map":
+      if (!params.code) throw new InvalidInputError("code required for map");
+      return await handleMap(
+        params.code,
+        params.version === "10" || params.version === "11"
+          ? params.version
+          : detectVersion(params.code) || "10",
+        client,
+        services.crosswalk
+      );
+
+    case "postcoordination":
+      if (!params.code) throw new InvalidInputError("code required for postcoordination");
+      if (version === "10") throw new InvalidInputError("postcoordination is ICD-11 only");
+      return await handlePostcoordination(params.code, client);
+
+    case "releases":
+      return await handleReleases(params.version, client);
+
+    case "diff":
+      if (!params.code) throw new InvalidInputError("code required for diff (code, block or chapter)");
+      if (!params.compare_release) throw new InvalidInputError("compare_release required for diff (e.g. 2025-01)");
+      return await handleDiff(params.code, version, params.compare_release, client);
+
+    case "foundation":
+      if (!params.code) throw new InvalidInputError("code required for foundation (Foundation entity ID or URI)");
+      if (version === "10") throw new InvalidInputError("The Foundation is ICD-11 only");
+      return await handleFoundation(params.code, client);
+
+    case "foundation_search":
+      if (!params.query) throw new InvalidInputError("query required for foundation_search");
+      if (version === "10") throw new InvalidInputError("The Foundation is ICD-11 only");
+      return await handleFoundationSearch(params.query, params.max_results || 10, client);
+
+    case "coding_rules":
+      return handleCodingRules(params.topic);
+
+    case "overview":
+      return handleOverview(version);
+
+    case "api":
+      if (!params.path) throw new InvalidInputError("path required for api");
+      return await handleApi(params.path, client);
+
+    case "help":
+      return handleHelp();
+
+    default:
+      throw new InvalidInputError(`Unknown action: ${params.action}`);
+  }
+}
 
-      case "validate":
-        if (!params.code) throw new Error("code required for validate");
-        return await handleValidate(params.code, version, client);
+/**
+ * Apply per-call overrides (language, release) on top of the deployment defaults.
+ * The release applies to the requested version; with "mixed" it is matched by
+ * format (YYYY = ICD-10, YYYY-MM = ICD-11).
+ */
+async function withCallOptions(params: ICDParamsType, client: WHOICDClient): Promise<WHOICDClient> {
+  if (!params.language && !params.release) {
+    return client;
+  }
 
-      case "coding_rules":
-        return handleCodingRules(params.topic);
+  const release = params.release;
+  const releaseVersion: ICDVersion =
+    params.version === "10" || (params.version === "mixed" && release && /^\d{4}$/.test(release)) ? "10" : "11";
 
-      case "overview":
-        return handleOverview(version);
+  const derived = client.withOptions({
+    language: params.language,
+    icd10Release: release && releaseVersion === "10" ? release : undefined,
+    icd11Release: release && releaseVersion === "11" ? release : undefined,
+  });
 
-      case "api":
-        if (!params.path) throw new Error("path required for api");
-        return await handleApi(params.path, client);
+  if (release) {
+    await derived.assertRelease(releaseVersion, release);
+  }
+  return derived;
+}
 
-      case "help":
-        return handleHelp();
+/**
+ * Resolve the ICD version for a code ("mixed" infers it from code syntax)
+ */
+function resolveVersion(code: string | undefined, version: string | undefined): ICDVersion {
+  if (version === "mixed") {
+    return (code && detectVersion(code)) || "11";
+  }
+  return version === "10" ? "10" : "11";
+}
 
-      default:
-        return {
-          content: [{ type: "text", text: `Unknown action: ${params.action}` }],
-          isError: true,
-        };
-    }
-  } catch (error) {
-    const message = error instanceof Error ? error.message : String(error);
-    return {
-      content: [{ type: "text", text: `Error: ${message}` }],
-      isError: true,
-    };
+/**
+ * Render an error for the agent, distinguishing "does not exist" from
+ * "the WHO API could not answer"
+ */
+function formatError(error: unknown): string {
+  if (error instanceof InvalidInputError) {
+    return `Invalid input: ${error.message}`;
+  }
+  if (error instanceof NotFoundError) {
+    return `Not found: ${error.message}`;
+  }
+  if (error instanceof RateLimitedError) {
+    return `WHO ICD-API rate limit reached: ${error.message}\n\nThe request could not be answered; this is not a negative result.`;
+  }
+  if (error instanceof AuthFailedError) {
+    return `WHO ICD-API authentication failed: ${error.message}`;
+  }
+  if (error instanceof UpstreamUnavailableError) {
+    return `WHO ICD-API unavailable: ${error.message}\n\nThe request could not be answered; this is not a negative result.`;
+  }
+  if (error instanceof ICDError) {
+    return `API Error: ${error.message}`;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return `Error: ${message}`;
+}
+
+/**
+ * Structured form of an error: { kind, message }
+ */
+function errorData(error: unknown): { kind: string; message: string } {
+  if (error instanceof ICDError) {
+    return { kind: error.kind, message: error.message };
   }
+  return { kind: "internal", message: error instanceof Error ? error.message : String(error) };
 }
 
 async function handleLookup(
@@ -137,25 +355,96 @@ async function handleLookup(
   version: string,
   client: WHOICDClient
 ): Promise<ToolResult> {
+  if (isClusterExpression(code)) {
+    return await handleCluster(code, version, client);
+  }
+
   const entity =
     version === "10"
       ? await client.getICD10Code(code)
       : await client.getICD11Code(code);
 
   if (!entity) {
-    return {
-      content: [
-        {
-          type: "text",
-          text: `ICD-${version} code '${code}' not found.\n\nTry searching: {"action": "search", "query": "...", "version": "${version}"}`,
-        },
-      ],
-    };
+    return respond(
+      `ICD-${version} code '${code}' not found.\n\nTry searching: {"action": "search", "query": "...", "version": "${version}"}`,
+      { code, found: false },
+      version
+    );
   }
 
-  return {
-    content: [{ type: "text", text: formatEntity(entity, version) }],
-  };
+  return respond(formatEntity(entity, version), { code, found: true, entity }, version);
+}
+
+async function handleMultilingualLookup(
+  code: string,
+  version: string,
+  languages: string[],
+  client: WHOICDClient
+): Promise<ToolResult> {
+  if (isClusterExpression(code)) {
+    throw new InvalidInputError("languages is not supported for cluster expressions; look up each component");
+  }
+
+  const unique = [...new Set(languages.map((l) => l.trim()).filter(Boolean))];
+  if (unique.length > MAX_LANGUAGES) {
+    throw new InvalidInputError(`At most ${MAX_LANGUAGES} languages per lookup (got ${unique.length})`);
+  }
+
+  // Validates every language up front; all share one cache and scheduler
+  const clients = unique.map((language) => client.withOptions({ language }));
+
+  const translations: ICDTranslation[] = await Promise.all(
+    clients.map(async (localized, i): Promise<ICDTranslation> => {
+      const language = unique[i];
+      try {
+        const entity =
+          version === "10"
+            ? await localized.getICD10Code(code)
+            : await localized.getICD11Code(code);
+        if (!entity) {
+          return { language, status: "not_found" };
+        }
+        // WHO serves English when a translation is missing
+        const fallback = !!entity.language && entity.language.split("-")[0] !== language.split("-")[0];
+        return { language, status: fallback ? "fallback" : "found", title: entity.title, definition: entity.definition };
+      } catch (error) {
+        if (error instanceof ICDError) {
+          return { language, status: "error", reason: error.message };
+        }
+        throw error;
+      }
+    })
+  );
+
+  const found = translations.some((t) => t.status === "found" || t.status === "fallback");
+  if (!found && translations.every((t) => t.status === "not_found")) {
+    return respond(
+      `ICD-${version} code '${code}' not found.\n\nTry searching: {"action": "search", "query": "...", "version": "${version}"}`,
+      { code, found: false, translations },
+      version
+    );
+  }
+
+  const cell = (text: string | undefined) => (text || "—").replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ");
+  const lines: string[] = [
+    `**${code}** (ICD-${version}) in ${unique.length} languages\n`,
+    "| Language | Title | Definition |",
+    "|----------|-------|------------|",
+  ];
+
+  for (const t of translations) {
+    if (t.status === "found") {
+      lines.push(`| ${t.language} | ${cell(t.title)} | ${cell(t.definition)} |`);
+    } else if (t.status === "fallback") {
+      lines.push(`| ${t.language} | _no translation_ (English: ${cell(t.title)}) | — |`);
+    } else if (t.status === "not_found") {
+      lines.push(`| ${t.language} | _not found_ | — |`);
+    } else {
+      lines.push(`| ${t.language} | _could not verify: ${cell(t.reason)}_ | — |`);
+    }
+  }
+
+  return respond(lines.join("\n"), { code, found, translations }, version);
 }
 
 async function handleSearch(
@@ -167,14 +456,11 @@ async function handleSearch(
   const results = await client.searchICD11(query, maxResults, chapter);
 
   if (results.length === 0) {
-    return {
-      content: [
-        {
-          type: "text",
-          text: `No ICD-11 codes found for '${query}'. Try different search terms.`,
-        },
-      ],
-    };
+    return respond(
+      `No ICD-11 codes found for '${query}'. Try different search terms.`,
+      { query, results },
+      "11"
+    );
   }
 
   const lines: string[] = [`**ICD-11 Search Results for '${query}':**\n`];
@@ -186,9 +472,47 @@ async function handleSearch(
 
   lines.push('\nUse {"action": "lookup", "code": "..."} for full details.');
 
-  return {
-    content: [{ type: "text", text: lines.join("\n") }],
-  };
+  return respond(lines.join("\n"), { query, results }, "11");
+}
+
+async function handleICD10Search(
+  query: string,
+  maxResults: number,
+  chapter: string | undefined,
+  client: WHOICDClient,
+  index: ICD10SearchIndex | undefined
+): Promise<ToolResult> {
+  if (!index) {
+    throw new ICDError("ICD-10 search is not supported by the WHO API and no local index is configured. Bind a KV namespace as ICD_INDEX and upload an index built with scripts/build-icd10-index.ts, or use ICD-11 search.");
+  }
+
+  const release = client.getRelease("10");
+  const language = client.getLanguage();
+  const results = await index.search(query, release, language, maxResults, chapter);
+
+  if (!results) {
+    throw new ICDError(`No ICD-10 search index for release ${release} (${language}). Build one with scripts/build-icd10-index.ts and upload it to ICD_INDEX.`);
+  }
+
+  if (results.length === 0) {
+    return respond(
+      `No ICD-10 codes found for '${query}'. Try different search terms.`,
+      { query, results },
+      "10"
+    );
+  }
+
+  const lines: string[] = [`**ICD-10 Search Results for '${query}':**\n`];
+
+  for (let i = 0; i < results.length; i++) {
+    const result = results[i];
+    const via = result.matchedTerm ? ` _(includes: ${result.matchedTerm})_` : "";
+    lines.push(`${i + 1}. **${result.code}**: ${result.title}${via}`);
+  }
+
+  lines.push('\nUse {"action": "lookup", "code": "...", "version": "10"} for full details.');
+
+  return respond(lines.join("\n"), { query, results }, "10");
 }
 
 async function handleChapters(
@@ -201,9 +525,7 @@ async function handleChapters(
       : await client.getICD11Chapters();
 
   if (chapters.length === 0) {
-    return {
-      content: [{ type: "text", text: `Could not retrieve ICD-${version} chapters.` }],
-    };
+    return respond(`Could not retrieve ICD-${version} chapters.`, { chapters }, version);
   }
 
   const lines: string[] = [`**ICD-${version} Chapters:**\n`];
@@ -214,9 +536,7 @@ async function handleChapters(
 
   lines.push(`\nUse {"action": "children", "code": "..."} to explore a chapter.`);
 
-  return {
-    content: [{ type: "text", text: lines.join("\n") }],
-  };
+  return respond(lines.join("\n"), { chapters }, version);
 }
 
 async function handleChildren(
@@ -230,14 +550,11 @@ async function handleChildren(
       : await client.getICD11Children(code);
 
   if (children.length === 0) {
-    return {
-      content: [
-        {
-          type: "text",
-          text: `No child codes found for '${code}'. This may be a leaf-level code.`,
-        },
-      ],
-    };
+    return respond(
+      `No child codes found for '${code}'. This may be a leaf-level code.`,
+      { code, children: [] },
+      version
+    );
   }
 
   const lines: string[] = [`**Child codes under ${code} (ICD-${version}):**\n`];
@@ -246,42 +563,114 @@ async function handleChildren(
     lines.push(`- **${child.code}**: ${child.title}`);
   }
 
-  return {
-    content: [{ type: "text", text: lines.join("\n") }],
-  };
+  return respond(lines.join("\n"), { code, children: children.map(summarize) }, version);
 }
 
 async function handleAutocode(
   text: string,
+  maxCandidates: number,
+  minScore: number,
   client: WHOICDClient
 ): Promise<ToolResult> {
-  const result = await client.autocodeICD11(text);
+  const { matchedText, candidates } = await client.autocodeICD11Candidates(text, maxCandidates);
+
+  if (candidates.length === 0) {
+    return respond(
+      `No ICD-11 code matched for: "${text}"\n\nTry rephrasing, or use {"action": "search", "query": "..."} for keyword search.`,
+      { query: text, verdict: "no_match", minScore, match: null, candidates: [] },
+      "11"
+    );
+  }
 
-  if (!result) {
-    return {
-      content: [
-        {
-          type: "text",
-          text: `No ICD-11 code matched for: "${text}"\n\nTry rephrasing, or use {"action": "search", "query": "..."} for keyword search.`,
-        },
-      ],
-    };
+  // Commit to the top candidate only when it clears the threshold
+  const best = candidates[0];
+  const verdict = (best.score ?? 0) >= minScore ? "match" : "ambiguous";
+
+  const lines: string[] = [`**Autocode Result for:** "${text}"\n`];
+
+  if (matchedText && matchedText.toLowerCase() !== text.trim().toLowerCase()) {
+    lines.push(`**Matched phrase:** "${matchedText}"\n`);
   }
 
-  const lines: string[] = [
-    `**Autocode Result for:** "${text}"\n`,
-    `**${result.code}**: ${result.title}`,
-  ];
+  if (verdict === "match") {
+    lines.push(`**${best.code}**: ${best.title}`);
+    if (best.score !== undefined) {
+      lines.push(`**Confidence:** ${(best.score * 100).toFixed(1)}%`);
+    }
+  } else {
+    lines.push(
+      `**Ambiguous** — no candidate reaches the ${(minScore * 100).toFixed(0)}% threshold. ` +
+      `Review the candidates below or add clinical detail.`
+    );
+  }
 
-  if (result.score !== undefined) {
-    lines.push(`**Confidence:** ${(result.score * 100).toFixed(1)}%`);
+  if (candidates.length > 1 || verdict === "ambiguous") {
+    lines.push(`\n**Candidates:**`);
+    candidates.forEach((candidate, i) => {
+      const score = candidate.score !== undefined ? ` (${(candidate.score * 100).toFixed(1)}%)` : "";
+      const term = candidate.matchedTerm && candidate.matchedTerm !== candidate.title
+        ? ` — via ${propertyLabel(candidate.matchedProperty, "index term")} "${candidate.matchedTerm}"`
+        : "";
+      lines.push(`${i + 1}. **${candidate.code}**: ${candidate.title}${score}${term}`);
+    });
   }
 
-  lines.push(`\nUse {"action": "lookup", "code": "${result.code}"} for full details.`);
+  lines.push(`\nUse {"action": "lookup", "code": "${best.code}"} for full details.`);
+
+  return respond(
+    lines.join("\n"),
+    {
+      query: text,
+      verdict,
+      minScore,
+      matchedText,
+      match: verdict === "match" ? best : null,
+      candidates,
+    },
+    "11"
+  );
+}
 
-  return {
-    content: [{ type: "text", text: lines.join("\n") }],
-  };
+async function handleCodeNote(note: string, minScore: number, client: WHOICDClient): Promise<ToolResult> {
+  const coding = await codeNarrative(note, client, minScore);
+  const quote = (span: { text: string; start: number; end: number }) => `"${span.text}" [${span.start}–${span.end}]`;
+
+  const lines: string[] = [];
+
+  if (coding.codes.length === 0) {
+    lines.push("**No codes proposed.**");
+  } else {
+    lines.push(`**Proposed codes** (in order of first mention):\n`);
+    coding.codes.forEach((entry, i) => {
+      const score = entry.score !== undefined ? ` (${(entry.score * 100).toFixed(0)}%)` : "";
+      lines.push(`${i + 1}. **${entry.code}**: ${entry.title}${score} — ${entry.evidence.map(quote).join(", ")}`);
+    });
+  }
+
+  if (coding.negated.length > 0) {
+    lines.push(`\n**Negated (not coded):** ${coding.negated.map((p) => `${quote(p)} (${p.negationCue})`).join(", ")}`);
+  }
+
+  if (coding.lowConfidence.length > 0) {
+    lines.push(`\n**Low confidence (below ${(minScore * 100).toFixed(0)}%):**`);
+    for (const item of coding.lowConfidence) {
+      const score = item.score !== undefined ? ` ${(item.score * 100).toFixed(0)}%` : "";
+      lines.push(`- ${quote(item)} → ${item.code}: ${item.title}${score}`);
+    }
+  }
+
+  if (coding.unmatched.length > 0) {
+    const failed = coding.unmatched.some((u) => u.reason);
+    lines.push(`\n**${failed ? "Not coded" : "No match"}:** ${coding.unmatched.map((u) => (u.reason ? `${quote(u)} (could not verify)` : quote(u))).join(", ")}`);
+  }
+
+  if (coding.skipped > 0) {
+    lines.push(`\n_${coding.skipped} further phrases were not coded (limit ${MAX_NARRATIVE_PHRASES} per note)._`);
+  }
+
+  lines.push("\n_Proposed codes need review by a coder; sequencing follows the note, not coding rules._");
+
+  return respond(lines.join("\n"), { minScore, ...coding }, "11");
 }
 
 async function handleBrowse(
@@ -301,14 +690,11 @@ async function handleBrowse(
       : await client.getICD11Code(code);
 
   if (!entity) {
-    return {
-      content: [
-        {
-          type: "text",
-          text: `ICD-${version} code '${code}' not found.\n\nTry: {"action": "browse"} to start from chapters.`,
-        },
-      ],
-    };
+    return respond(
+      `ICD-${version} code '${code}' not found.\n\nTry: {"action": "browse"} to start from chapters.`,
+      { code, found: false },
+      version
+    );
   }
 
   const lines: string[] = [`**Browsing ${entity.code}: ${entity.title}** (ICD-${version})\n`];
@@ -317,22 +703,19 @@ async function handleBrowse(
     lines.push(`${entity.definition}\n`);
   }
 
+  // Fetch parent and children in parallel
+  const [parentEntity, children] = await Promise.all([
+    entity.parent ? client.getEntityByUri(entity.parent) : Promise.resolve(null),
+    entity.children ? client.getEntitiesByUri(entity.children.slice(0, 25)) : Promise.resolve([]),
+  ]);
+
   // Show parent for context
-  if (entity.parent) {
-    const parentEntity = await client.getEntityByUri(entity.parent);
-    if (parentEntity) {
-      lines.push(`**Parent:** ${parentEntity.code || "Root"} - ${parentEntity.title}`);
-    }
+  if (parentEntity) {
+    lines.push(`**Parent:** ${parentEntity.code || "Root"} - ${parentEntity.title}`);
   }
 
   // Show children
   if (entity.children && entity.children.length > 0) {
-    const children: ICDEntity[] = [];
-    for (const childUri of entity.children.slice(0, 25)) {
-      const child = await client.getEntityByUri(childUri);
-      if (child) children.push(child);
-    }
-
     if (children.length > 0) {
       lines.push(`\n**Sub-categories (${children.length}${entity.children.length > 25 ? "+" : ""}):**`);
       for (const child of children) {
@@ -346,9 +729,19 @@ async function handleBrowse(
 
   lines.push(`\nUse {"action": "browse", "code": "..."} to drill into a sub-category.`);
 
-  return {
-    content: [{ type: "text", text: lines.join("\n") }],
-  };
+  return respond(
+    lines.join("\n"),
+    {
+      code,
+      found: true,
+      entity: summarize(entity),
+      definition: entity.definition,
+      parent: parentEntity ? summarize(parentEntity) : null,
+      children: children.map(summarize),
+      truncated: (entity.children?.length || 0) > 25,
+    },
+    version
+  );
 }
 
 async function handleAncestors(
@@ -362,14 +755,11 @@ async function handleAncestors(
       : await client.getICD11Ancestors(code);
 
   if (ancestors.length === 0) {
-    return {
-      content: [
-        {
-          type: "text",
-          text: `ICD-${version} code '${code}' not found.\n\nTry: {"action": "lookup", "code": "${code}"}`,
-        },
-      ],
-    };
+    return respond(
+      `ICD-${version} code '${code}' not found.\n\nTry: {"action": "lookup", "code": "${code}"}`,
+      { code, found: false, lineage: [] },
+      version
+    );
   }
 
   const lines: string[] = [`**Lineage for ${code} (ICD-${version}):**\n`];
@@ -382,9 +772,7 @@ async function handleAncestors(
     lines.push(`${indent}${marker} **${lineage[i].code || "Root"}**: ${lineage[i].title}`);
   }
 
-  return {
-    content: [{ type: "text", text: lines.join("\n") }],
-  };
+  return respond(lines.join("\n"), { code, found: true, lineage: lineage.map(summarize) }, version);
 }
 
 async function handleValidate(
@@ -392,17 +780,27 @@ async function handleValidate(
   version: string,
   client: WHOICDClient
 ): Promise<ToolResult> {
-  const { valid, entity } = await client.validateCode(code, version);
+  if (isClusterExpression(code)) {
+    return await handleCluster(code, version, client);
+  }
 
-  if (!valid) {
-    return {
-      content: [
-        {
-          type: "text",
-          text: `**${code}** is **not a valid** ICD-${version} code.\n\nTry {"action": "search", "query": "..."} to find the correct code.`,
-        },
-      ],
-    };
+  const { status, entity, reason } = await client.validateCode(code, version);
+
+  if (status === "unverified") {
+    return respond(
+      `**${code}** **could not be verified** as an ICD-${version} code: ${reason}\n\nThis does not mean the code is invalid. Retry the validation later.`,
+      { code, status, reason },
+      version,
+      true
+    );
+  }
+
+  if (status === "invalid") {
+    return respond(
+      `**${code}** is **not a valid** ICD-${version} code.${reason ? ` ${reason}.` : ""}\n\nTry {"action": "search", "query": "..."} to find the correct code.`,
+      { code, status, reason },
+      version
+    );
   }
 
   const lines: string[] = [
@@ -417,18 +815,526 @@ async function handleValidate(
   const hasChildren = entity!.children && entity!.children.length > 0;
   lines.push(`**Level:** ${hasChildren ? "Category (has sub-codes)" : "Leaf code (terminal)"}`);
 
+  const extension = version === "11" && isExtensionCode(code);
+  if (extension) {
+    lines.push(`**Note:** Extension code — cannot be used standalone. Attach it to a stem code with "&" (e.g. BA00&${code}).`);
+  }
+
   if (entity!.browserUrl) {
     lines.push(`**Browser:** ${entity!.browserUrl}`);
   }
 
-  return {
-    content: [{ type: "text", text: lines.join("\n") }],
+  return respond(
+    lines.join("\n"),
+    { code, status, entity: summarize(entity!), leaf: !hasChildren, extension },
+    version
+  );
+}
+
+/**
+ * Break down a postcoordination cluster (used by lookup and validate)
+ */
+async function handleCluster(
+  expression: string,
+  version: string,
+  client: WHOICDClient
+): Promise<ToolResult> {
+  if (version === "10") {
+    throw new InvalidInputError("cluster expressions (& and /) are ICD-11 only");
+  }
+
+  const analysis = await analyzeCluster(expression, client);
+
+  const verdict = {
+    valid: "is a **valid** ICD-11 cluster",
+    invalid: "is **not a valid** ICD-11 cluster",
+    unverified: "**could not be verified** as an ICD-11 cluster",
+  }[analysis.status];
+
+  const lines: string[] = [`**${analysis.expression}** ${verdict}.\n`];
+
+  let group = -1;
+  for (const component of analysis.components) {
+    if (component.group !== group) {
+      group = component.group;
+      lines.push(`${group === 0 ? "" : "\n"}**Stem group ${group + 1}:**`);
+    }
+    const indent = component.role === "extension" ? "    " : "  ";
+    const detail = component.entity
+      ? component.entity.title
+      : `_${component.status === "unverified" ? "could not verify" : "not found"}: ${component.reason}_`;
+    lines.push(`${indent}- **${component.code}** (${component.role}): ${detail}`);
+  }
+
+  if (analysis.issues.length > 0) {
+    lines.push("\n**Issues:**");
+    for (const issue of analysis.issues) {
+      lines.push(`- ${issue}`);
+    }
+  }
+
+  lines.push('\nSee {"action": "coding_rules", "topic": "clustering"} for cluster syntax.');
+
+  return respond(
+    lines.join("\n"),
+    {
+      code: analysis.expression,
+      status: analysis.status,
+      cluster: {
+        components: analysis.components.map(({ entity, ...component }) => ({
+          ...component,
+          title: entity?.title,
+          uri: entity?.uri,
+        })),
+        issues: analysis.issues,
+      },
+    },
+    "11",
+    analysis.status === "unverified"
+  );
+}
+
+async function handleExpand(
+  code: string,
+  version: string,
+  params: ICDParamsType,
+  client: WHOICDClient
+): Promise<ToolResult> {
+  const expansion = await client.expand(code, version, {
+    filter: params.filter,
+    offset: params.offset,
+    count: params.max_results || 50,
+    includeGroupings: params.include_groupings,
+  });
+
+  if (!expansion) {
+    return respond(
+      `ICD-${version} code '${code}' not found.\n\nTry: {"action": "chapters"} to find a starting point.`,
+      { code, found: false },
+      version
+    );
+  }
+
+  const { root, total, offset, concepts, truncated } = expansion;
+  const lines: string[] = [`**Expansion of ${root.code || "Root"}: ${root.title}** (ICD-${version})\n`];
+
+  if (concepts.length === 0) {
+    lines.push(params.filter ? `No descendants match "${params.filter}".` : "No codes in this subtree.");
+  } else {
+    lines.push(`Showing ${offset + 1}–${offset + concepts.length} of ${total}${params.filter ? ` matching "${params.filter}"` : ""}:\n`);
+    for (const concept of concepts) {
+      const label = concept.grouping ? `_${concept.code || concept.classKind || "group"}_` : `**${concept.code}**`;
+      lines.push(`${"  ".repeat(concept.depth)}- ${label}: ${concept.title}`);
+    }
+  }
+
+  if (offset + concepts.length < total) {
+    const next = {
+      action: "expand",
+      code,
+      version: params.version,
+      filter: params.filter,
+      include_groupings: params.include_groupings,
+      max_results: params.max_results,
+      offset: offset + concepts.length,
+    };
+    lines.push(`\nNext page: ${JSON.stringify(next)}`);
+  }
+  if (truncated) {
+    lines.push(`\n_Subtree is larger than ${MAX_EXPANSION_NODES} entities; the expansion is incomplete. Expand a narrower block or code._`);
+  }
+
+  return respond(
+    lines.join("\n"),
+    { code, root: summarize(root), total, offset, concepts, truncated },
+    version
+  );
+}
+
+async function handlePostcoordination(
+  code: string,
+  client: WHOICDClient
+): Promise<ToolResult> {
+  const entity = await client.getICD11Code(code);
+
+  if (!entity) {
+    return respond(
+      `ICD-11 code '${code}' not found.\n\nTry searching: {"action": "search", "query": "..."}`,
+      { code, found: false, axes: [] },
+      "11"
+    );
+  }
+
+  const axes = entity.postcoordination || [];
+  if (axes.length === 0) {
+    return respond(
+      `**${entity.code}**: ${entity.title}\n\nNo postcoordination axes are defined for this code.`,
+      { code, found: true, entity: summarize(entity), axes: [] },
+      "11"
+    );
+  }
+
+  const multiple: Record<string, string> = {
+    NotAllowed: "single value",
+    AllowAlways: "multiple values allowed",
+    AllowedExceptFromSameBlock: "multiple values allowed (not from the same block)",
   };
+
+  // Resolve every axis value set in parallel
+  const valueSets = await Promise.all(
+    axes.map((axis) => client.getEntitiesByUri(axis.scaleEntities.slice(0, 25)))
+  );
+
+  const lines: string[] = [`**Postcoordination for ${entity.code}: ${entity.title}**\n`];
+
+  axes.forEach((axis, i) => {
+    const cardinality = multiple[axis.allowMultiple] || axis.allowMultiple;
+    lines.push(`\n**${axis.label}** — ${axis.required ? "required" : "optional"}, ${cardinality}`);
+    for (const value of valueSets[i]) {
+      const hasKids = value.children && value.children.length > 0 ? " ▸" : "";
+      lines.push(`  - **${value.code}**: ${value.title}${hasKids}`);
+    }
+    if (axis.scaleEntities.length > 25) {
+      lines.push(`  - ... and ${axis.scaleEntities.length - 25} more`);
+    }
+  });
+
+  lines.push(`\nCombine with "&", e.g. ${entity.code}&XS28. Use {"action": "browse", "code": "..."} to expand a ▸ value set.`);
+
+  return respond(
+    lines.join("\n"),
+    {
+      code,
+      found: true,
+      entity: summarize(entity),
+      axes: axes.map(({ scaleEntities, ...axis }, i) => ({
+        ...axis,
+        values: valueSets[i].map(summarize),
+        totalValues: scaleEntities.length,
+      })),
+    },
+    "11"
+  );
 }
 
-function handleCodingRules(topic?: string): ToolResult {
-  const topics: Record<string, string> = {
-    extension_codes: `# ICD-11 Extension Codes
+interface BatchRow {
+  code: string;
+  version: ICDVersion;
+  status: string;
+  detail: string;
+}
+
+/**
+ * Run lookup, validate or ancestors over a list of codes and return a compact table
+ */
+async function handleBatch(
+  action: "lookup" | "validate" | "ancestors",
+  codes: string[],
+  version: string | undefined,
+  client: WHOICDClient
+): Promise<ToolResult> {
+  if (codes.length > MAX_BATCH_CODES) {
+    throw new InvalidInputError(`at most ${MAX_BATCH_CODES} codes per call (got ${codes.length})`);
+  }
+
+  const limiter = new FetchScheduler(BATCH_CONCURRENCY);
+
+  const rows = await Promise.all(
+    codes.map((raw) => {
+      const code = raw.trim();
+      const codeVersion = resolveVersion(code, version);
+      // Keyed by version + code, so duplicate codes are resolved once
+      return limiter.run(`${codeVersion}:${code}`, () => batchRow(action, code, codeVersion, client));
+    })
+  );
+
+  const counts = new Map<string, number>();
+  for (const row of rows) {
+    counts.set(row.status, (counts.get(row.status) || 0) + 1);
+  }
+  const summary = [...counts].map(([status, count]) => `${count} ${status}`).join(", ");
+
+  const detailHeader = action === "ancestors" ? "Lineage" : "Title";
+  const lines: string[] = [
+    `**Batch ${action}: ${rows.length} codes** (${summary})\n`,
+    `| # | Code | Version | Status | ${detailHeader} |`,
+    "|---|------|---------|--------|-------|",
+  ];
+
+  rows.forEach((row, i) => {
+    const cells = [String(i + 1), row.code, `ICD-${row.version}`, row.status, row.detail];
+    lines.push(`| ${cells.map((c) => c.replace(/\|/g, "\\|")).join(" | ")} |`);
+  });
+
+  return respond(lines.join("\n"), { rows, counts: Object.fromEntries(counts) });
+}
+
+async function batchRow(
+  action: "lookup" | "validate" | "ancestors",
+  code: string,
+  version: ICDVersion,
+  client: WHOICDClient
+): Promise<BatchRow> {
+  const row = (status: string, detail: string): BatchRow => ({ code, version, status, detail });
+
+  try {
+    if (isClusterExpression(code)) {
+      if (version === "10") return row("invalid", "cluster expressions are ICD-11 only");
+      const analysis = await analyzeCluster(code, client);
+      const titles = analysis.components.map((c) => c.entity?.title || c.code).join(" & ");
+      const status = analysis.status === "unverified" ? "could not verify" : analysis.status;
+      return row(status, analysis.issues.length > 0 ? analysis.issues.join("; ") : titles);
+    }
+
+    switch (action) {
+      case "validate": {
+        const result = await client.validateCode(code, version);
+        const status = result.status === "unverified" ? "could not verify" : result.status;
+        return row(status, result.entity?.title || result.reason || "");
+      }
+
+      case "lookup": {
+        const entity = version === "10" ? await client.getICD10Code(code) : await client.getICD11Code(code);
+        return entity ? row("found", entity.title) : row("not found", "");
+      }
+
+      case "ancestors": {
+        const ancestors =
+          version === "10" ? await client.getICD10Ancestors(code) : await client.getICD11Ancestors(code);
+        if (ancestors.length === 0) return row("not found", "");
+        const lineage = [...ancestors].reverse().map((a) => a.code || a.title);
+        return row("found", lineage.join(" › "));
+      }
+    }
+  } catch (error) {
+    if (error instanceof InvalidInputError) return row("invalid", error.message);
+    if (error instanceof ICDError) return row("could not verify", error.message);
+    throw error;
+  }
+}
+
+async function handleMap(
+  code: string,
+  from: ICDVersion,
+  client: WHOICDClient,
+  crosswalk: Crosswalk | undefined
+): Promise<ToolResult> {
+  if (!crosswalk) {
+    throw new ICDError("ICD-10 ↔ ICD-11 mapping is not configured. Bind an R2 bucket as ICD_MAPPINGS containing WHO's mapping tables.");
+  }
+
+  const result = await crosswalk.map(code, from);
+
+  if (result.cardinality === "not-in-table") {
+    return respond(
+      `ICD-${from} code '${result.code}' is not in the WHO ${from}→${result.to} mapping table.\n\nTry: {"action": "lookup", "code": "${result.code}", "version": "${from}"}`,
+      { ...result },
+      from
+    );
+  }
+
+  // Prefer current titles from the configured release; fall back to the table's
+  const entities = await Promise.all(
+    result.targets.map((target) =>
+      (result.to === "11" ? client.getICD11Code(target.code) : client.getICD10Code(target.code)).catch(() => null)
+    )
+  );
+
+  const targets = result.targets.map((target, i) => ({
+    ...target,
+    title: entities[i]?.title || target.title,
+  }));
+
+  const lines: string[] = [
+    `**ICD-${from} ${result.code}**${result.sourceTitle ? `: ${result.sourceTitle}` : ""} → ICD-${result.to}\n`,
+    `**Mapping:** ${result.cardinality}`,
+  ];
+
+  if (result.cardinality === "no-map") {
+    lines.push(`\n_No ICD-${result.to} equivalent in the WHO mapping table._`);
+  } else {
+    lines.push(`\n**Candidate ICD-${result.to} codes:**`);
+    for (const target of targets) {
+      lines.push(`- **${target.code}**: ${target.title}`);
+    }
+  }
+
+  lines.push(`\nUse {"action": "lookup", "code": "...", "version": "${result.to}"} for full details.`);
+
+  return respond(lines.join("\n"), { ...result, targets }, from);
+}
+
+async function handleReleases(version: string | undefined, client: WHOICDClient): Promise<ToolResult> {
+  const versions: ICDVersion[] = version === "10" || version === "11" ? [version] : ["11", "10"];
+  const lists = await Promise.all(versions.map((v) => client.listReleases(v)));
+
+  const lines: string[] = [];
+  for (const list of lists) {
+    lines.push(`**ICD-${list.version}${list.version === "11" ? " MMS" : ""} releases** (${list.releases.length}):`);
+    for (const release of list.releases) {
+      const notes: string[] = [];
+      if (release === list.latest) notes.push("latest");
+      if (release === list.current) notes.push("server default");
+      lines.push(`- ${release}${notes.length > 0 ? ` (${notes.join(", ")})` : ""}`);
+    }
+    lines.push("");
+  }
+
+  lines.push(`Use "release" with any action to code against a specific release, e.g. {"action": "lookup", "code": "J18.9", "release": "2016"}`);
+
+  return respond(lines.join("\n"), { releases: lists }, versions.length === 1 ? versions[0] : undefined);
+}
+
+async function handleFoundation(id: string, client: WHOICDClient): Promise<ToolResult> {
+  const [entity, linearization] = await Promise.all([
+    client.getFoundationEntity(id),
+    client.linearize(id),
+  ]);
+
+  if (!entity) {
+    return respond(
+      `Foundation entity '${id}' not found.\n\nTry: {"action": "foundation_search", "query": "..."}`,
+      { id, found: false },
+      "11"
+    );
+  }
+
+  const lines: string[] = [`**Foundation ${entity.id}**: ${entity.title}`];
+
+  if (entity.fullySpecifiedName && entity.fullySpecifiedName !== entity.title) {
+    lines.push(`**Fully specified name:** ${entity.fullySpecifiedName}`);
+  }
+
+  // How to code it in the MMS
+  if (!linearization) {
+    lines.push(`\n**MMS:** not covered by the ICD-11 ${client.getRelease("11")} linearization`);
+  } else if (linearization.match === "exact") {
+    lines.push(`\n**MMS:** **${linearization.entity.code}**: ${linearization.entity.title}`);
+  } else {
+    const target = linearization.entity;
+    lines.push(`\n**MMS:** not a category itself; code with **${target.code || target.title}**: ${target.title}`);
+  }
+
+  if (entity.definition) {
+    lines.push(`\n**Definition:** ${entity.definition}`);
+  }
+  if (entity.longDefinition && entity.longDefinition !== entity.definition) {
+    lines.push(`\n**Details:** ${entity.longDefinition}`);
+  }
+
+  const terms = (heading: string, list: string[] | undefined) => {
+    if (!list || list.length === 0) return;
+    lines.push(`\n**${heading}:**`);
+    for (const term of list.slice(0, 15)) {
+      lines.push(`  - ${term}`);
+    }
+    if (list.length > 15) {
+      lines.push(`  - ... and ${list.length - 15} more`);
+    }
+  };
+  terms("Synonyms", entity.synonyms);
+  terms("Narrower terms", entity.narrowerTerms);
+  terms("Includes", entity.inclusions);
+  terms("Excludes", entity.exclusions);
+
+  if (entity.children && entity.children.length > 0) {
+    const ids = entity.children.slice(0, 5).map((uri) => uri.split("/").pop());
+    lines.push(`\n**Foundation children:** ${entity.children.length} (e.g. ${ids.join(", ")})`);
+  }
+
+  if (entity.browserUrl) {
+    lines.push(`\n**Browser:** ${entity.browserUrl}`);
+  }
+
+  lines.push("\n_ICD-11 Foundation_");
+
+  return respond(lines.join("\n"), { id: entity.id, found: true, entity, linearization }, "11");
+}
+
+async function handleFoundationSearch(
+  query: string,
+  maxResults: number,
+  client: WHOICDClient
+): Promise<ToolResult> {
+  const results = await client.searchFoundation(query, maxResults);
+
+  if (results.length === 0) {
+    return respond(`No Foundation entities found for: "${query}"`, { query, results: [] }, "11");
+  }
+
+  const lines: string[] = [`**Foundation results for:** "${query}"\n`];
+
+  for (const result of results) {
+    const score = result.score !== undefined ? ` (${(result.score * 100).toFixed(0)}%)` : "";
+    const matched = result.matchedTerm ? ` — matched ${propertyLabel(result.matchedProperty, "term")} "${result.matchedTerm}"` : "";
+    lines.push(`- **${result.title}** [${result.id}]${score}${matched}`);
+  }
+
+  lines.push(`\nUse {"action": "foundation", "code": "<id>"} for synonyms, definitions and the MMS code.`);
+
+  return respond(lines.join("\n"), { query, results }, "11");
+}
+
+async function handleDiff(
+  code: string,
+  version: string,
+  compareRelease: string,
+  client: WHOICDClient
+): Promise<ToolResult> {
+  const target = client.withOptions(version === "10" ? { icd10Release: compareRelease } : { icd11Release: compareRelease });
+  await client.assertRelease(version, compareRelease);
+
+  const diff = await diffReleases(code, version, client, target);
+  if (!diff) {
+    return respond(
+      `ICD-${version} code '${code}' not found in release ${client.getRelease(version)} or ${compareRelease}.`,
+      { code, found: false },
+      version
+    );
+  }
+
+  const changes = diff.added.length + diff.removed.length + diff.renamed.length + diff.recoded.length + diff.reparented.length;
+  const lines: string[] = [`**${code}: ICD-${version} ${diff.from} → ${diff.to}**\n`];
+
+  if (changes === 0) {
+    lines.push(`No changes (${diff.unchanged} entities compared).`);
+  } else {
+    lines.push(
+      `${diff.added.length} added, ${diff.removed.length} removed, ${diff.renamed.length} renamed, ` +
+      `${diff.recoded.length} recoded, ${diff.reparented.length} moved, ${diff.unchanged} unchanged`
+    );
+  }
+
+  const label = (c: DiffConcept) => (c.code ? `**${c.code}**: ${c.title}` : `_${c.title}_`);
+  const section = <T extends DiffConcept>(heading: string, items: T[], format: (item: T) => string) => {
+    if (items.length === 0) return;
+    lines.push(`\n**${heading} (${items.length}):**`);
+    for (const item of items.slice(0, MAX_DIFF_LINES)) {
+      lines.push(`- ${format(item)}`);
+    }
+    if (items.length > MAX_DIFF_LINES) {
+      lines.push(`- ... and ${items.length - MAX_DIFF_LINES} more (use "output": "json" for the full list)`);
+    }
+  };
+
+  section("Added", diff.added, label);
+  section("Removed", diff.removed, label);
+  section("Renamed", diff.renamed, (c: DiffChange) => `${c.code ? `**${c.code}**` : "_block_"}: "${c.before}" → "${c.after}"`);
+  section("Recoded", diff.recoded, (c: DiffChange) => `${c.before} → **${c.after}**: ${c.title}`);
+  section("Moved", diff.reparented, (c: DiffChange) => `${label(c)} (under ${c.before} → ${c.after})`);
+
+  if (diff.truncated) {
+    lines.push(`\n_Subtree is larger than ${MAX_EXPANSION_NODES} entities; the comparison is incomplete. Diff a narrower block or code._`);
+  }
+
+  return respond(lines.join("\n"), { ...diff }, version);
+}
+
+/**
+ * Coding rules reference, by topic (coding_rules action, workflow prompts)
+ */
+export const CODING_RULES: Record<string, string> = {
+  extension_codes: `# ICD-11 Extension Codes
 
 Extension codes add detail to stem codes but **cannot be used alone**.
 
@@ -443,7 +1349,7 @@ Extension codes add detail to stem codes but **cannot be used alone**.
 **Usage:** Always pair with a stem code using the cluster operator "&"
 Example: BA00 (Pneumonia) & XS28 (Severe) → BA00&XS28`,
 
-    clustering: `# ICD-11 Code Clustering
+  clustering: `# ICD-11 Code Clustering
 
 Clustering combines multiple codes to represent a clinical concept fully.
 
@@ -461,7 +1367,7 @@ Clustering combines multiple codes to represent a clinical concept fully.
 - 2A00.0&XH3Y48 → Specific neoplasm with histology type
 - BA00/CA40 → Pneumonia and asthma (separate conditions)`,
 
-    sequencing: `# ICD Coding Sequencing Rules
+  sequencing: `# ICD Coding Sequencing Rules
 
 **ICD-11 Sequencing:**
 1. **Main condition** is coded first (reason for encounter)
@@ -480,7 +1386,7 @@ Clustering combines multiple codes to represent a clinical concept fully.
 - Use "unspecified" codes only when information is truly absent
 - Avoid "not elsewhere classified" (NEC) when a specific code exists`,
 
-    dagger_asterisk: `# ICD-10 Dagger (†) and Asterisk (*) System
+  dagger_asterisk: `# ICD-10 Dagger (†) and Asterisk (*) System
 
 The dual classification system links **etiology** to **manifestation**.
 
@@ -500,7 +1406,7 @@ The dual classification system links **etiology** to **manifestation**.
 
 **Note:** ICD-11 replaced this with postcoordination and code clustering.`,
 
-    postcoordination: `# ICD-11 Postcoordination
+  postcoordination: `# ICD-11 Postcoordination
 
 Postcoordination allows adding detail to a stem code along defined **axes**.
 
@@ -513,7 +1419,7 @@ Postcoordination allows adding detail to a stem code along defined **axes**.
 - Medication
 - Injury dimensions (mechanism, intent, place)
 
-**How to check:** Use {"action": "lookup", "code": "..."} — the entity data includes allowed postcoordination axes.
+**How to check:** Use {"action": "postcoordination", "code": "..."} to list the allowed axes, whether each is required, and their permitted values.
 
 **Syntax:** stem_code & extension_code [& extension_code ...]
 
@@ -521,11 +1427,12 @@ Postcoordination allows adding detail to a stem code along defined **axes**.
 - **Pre-coordinated:** BA00.1 (already specific in the classification)
 - **Post-coordinated:** BA00&XS28 (combining stem + extension)
 - Always prefer pre-coordinated codes when they exist`,
-  };
+};
 
+function handleCodingRules(topic?: string): ToolResult {
   if (topic) {
     const key = topic.toLowerCase().replace(/[\s-]/g, "_");
-    const content = topics[key];
+    const content = CODING_RULES[key];
     if (content) {
       return { content: [{ type: "text", text: content }] };
     }
@@ -534,7 +1441,7 @@ Postcoordination allows adding detail to a stem code along defined **axes**.
       content: [
         {
           type: "text",
-          text: `Unknown topic: "${topic}"\n\n**Available topics:** ${Object.keys(topics).join(", ")}\n\nUsage: {"action": "coding_rules", "topic": "extension_codes"}`,
+          text: `Unknown topic: "${topic}"\n\n**Available topics:** ${Object.keys(CODING_RULES).join(", ")}\n\nUsage: {"action": "coding_rules", "topic": "extension_codes"}`,
         },
       ],
       isError: true,
@@ -545,7 +1452,7 @@ Postcoordination allows adding detail to a stem code along defined **axes**.
   const lines = [
     "# ICD Coding Rules & Conventions\n",
     "Use the **topic** parameter for detailed rules:\n",
-    ...Object.keys(topics).map((t) => `- **${t}**: {"action": "coding_rules", "topic": "${t}"}`),
+    ...Object.keys(CODING_RULES).map((t) => `- **${t}**: {"action": "coding_rules", "topic": "${t}"}`),
     "\n**Quick reference:**",
     "- ICD-11 uses extension codes + clustering instead of ICD-10's dagger/asterisk",
     "- Always code to the highest specificity available",
@@ -619,7 +1526,7 @@ Adopted: 2019 by WHA | In effect: January 2022
 
 ## Structure
 - **28 chapters** with ~17,000 diagnostic categories
-- **Foundation layer:** comprehensive ontology (~80,000 entities)
+- **Foundation layer:** comprehensive ontology (~80,000 entities) — explore with {"action": "foundation_search"}
 - **MMS linearization:** Mortality & Morbidity Statistics (the clinical coding version)
 - **Format:** Alphanumeric stem codes, e.g., BA00, 1A00.1
 
@@ -659,24 +1566,11 @@ Use {"action": "chapters"} to see all chapters from the WHO API.`,
 
 async function handleApi(path: string, client: WHOICDClient): Promise<ToolResult> {
   if (!path.startsWith("/")) {
-    return {
-      content: [{ type: "text", text: "Path must start with /" }],
-      isError: true,
-    };
+    throw new InvalidInputError("Path must start with /");
   }
 
-  try {
-    const result = await client.apiRequest(path);
-    return {
-      content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-    };
-  } catch (error) {
-    const message = error instanceof Error ? error.message : String(error);
-    return {
-      content: [{ type: "text", text: `API Error: ${message}` }],
-      isError: true,
-    };
-  }
+  const result = await client.apiRequest(path);
+  return respond(JSON.stringify(result, null, 2), { path, response: result });
 }
 
 function handleHelp(): ToolResult {
@@ -693,14 +1587,24 @@ Supports both **ICD-10** and **ICD-11** via the WHO ICD-API.
 **lookup** - Get code details
   {"action": "lookup", "code": "A00"}
   {"action": "lookup", "code": "J18.9", "version": "10"}
+  {"action": "lookup", "code": "BA00/CA40"}         (cluster breakdown)
+  {"action": "lookup", "code": "BA00", "languages": ["en", "fr", "es", "ar"]}  (side-by-side)
 
-**search** - Find codes by keyword (ICD-11 only)
+**Language** - Add "language" to any action to override the server language for one call
+  {"action": "search", "query": "pneumonie", "language": "fr"}
+
+**search** - Find codes by keyword (ICD-10 uses a local index of titles and inclusion terms)
   {"action": "search", "query": "pneumonia"}
   {"action": "search", "query": "diabetes", "chapter": "05"}
+  {"action": "search", "query": "classical cholera", "version": "10"}
 
 **autocode** - Clinical text → ICD-11 code (ICD-11 only)
   {"action": "autocode", "query": "acute bronchitis"}
   {"action": "autocode", "query": "patient presents with chest pain and shortness of breath"}
+  {"action": "autocode", "query": "chest infection", "max_results": 10, "min_score": 0.6}
+
+**code_note** - Clinical note → ordered list of ICD-11 codes (negation-aware, ICD-11 only)
+  {"action": "code_note", "query": "Type 2 diabetes with chronic kidney disease and hypertension. No fever."}
 
 **browse** - Navigate classification hierarchy
   {"action": "browse"}                              (shows chapters)
@@ -713,14 +1617,55 @@ Supports both **ICD-10** and **ICD-11** via the WHO ICD-API.
 **children** - Get subcodes
   {"action": "children", "code": "BA00"}
 
+**Batch mode** - Pass "codes" to lookup, validate or ancestors (max 500)
+  {"action": "validate", "codes": ["BA00", "CA40.Z", "XS28"]}
+  {"action": "validate", "codes": ["J18.9", "BA00"], "version": "mixed"}
+
 **ancestors** - Walk up hierarchy to chapter
   {"action": "ancestors", "code": "BA01.0"}
   {"action": "ancestors", "code": "J18.9", "version": "10"}
 
 **validate** - Check if a code is valid
   {"action": "validate", "code": "BA00"}
+  {"action": "validate", "code": "BA00&XS28"}      (postcoordination cluster)
   {"action": "validate", "code": "Z99", "version": "10"}
 
+**expand** - All descendant codes of a chapter, block or code (paged)
+  {"action": "expand", "code": "CA40"}
+  {"action": "expand", "code": "12", "filter": "pneumonia"}     (chapter 12)
+  {"action": "expand", "code": "J09-J18", "version": "10", "offset": 50}
+  {"action": "expand", "code": "01", "include_groupings": true, "max_results": 100}
+
+**map** - ICD-10 ↔ ICD-11 crosswalk (WHO mapping tables)
+  {"action": "map", "code": "J18.9"}                (ICD-10 → ICD-11)
+  {"action": "map", "code": "CA40.Z", "version": "11"}  (ICD-11 → ICD-10)
+
+**postcoordination** - Allowed postcoordination axes and values (ICD-11 only)
+  {"action": "postcoordination", "code": "BA00"}
+
+**Output format** - Add "output": "json" to any action for a stable JSON envelope
+  {"action": "lookup", "code": "BA00", "output": "json"}
+  → {"action": "lookup", "version": "11", "data": {"code": "BA00", "found": true, "entity": {...}}}
+
+**releases** - Releases offered by the WHO API
+  {"action": "releases"}
+  {"action": "releases", "version": "11"}
+
+**Release** - Add "release" to any action to use a specific release for one call
+  {"action": "lookup", "code": "J18.9", "release": "2016"}          (YYYY implies ICD-10)
+  {"action": "validate", "code": "BA00", "release": "2023-01"}
+
+**diff** - What changed in a code, block or chapter between two releases
+  {"action": "diff", "code": "CA40", "compare_release": "2025-01"}
+  {"action": "diff", "code": "12", "release": "2023-01", "compare_release": "2024-01"}
+
+**foundation** - ICD-11 Foundation entity: synonyms, narrower terms, definitions and its MMS code
+  {"action": "foundation", "code": "1435254666"}
+  {"action": "foundation", "code": "http://id.who.int/icd/entity/1435254666"}
+
+**foundation_search** - Search the Foundation (finds concepts that are only index terms in the MMS)
+  {"action": "foundation_search", "query": "walking pneumonia"}
+
 **coding_rules** - ICD coding conventions
   {"action": "coding_rules"}                        (list topics)
   {"action": "coding_rules", "topic": "extension_codes"}
@@ -741,17 +1686,24 @@ Supports both **ICD-10** and **ICD-11** via the WHO ICD-API.
 | Feature | ICD-10 | ICD-11 |
 |---------|--------|--------|
 | Lookup | Yes | Yes |
-| Search | No* | Yes |
+| Search | Yes* | Yes |
 | Autocode | No | Yes |
+| Code note | No | Yes |
 | Browse | Yes | Yes |
 | Chapters | Yes | Yes |
 | Children | Yes | Yes |
 | Ancestors | Yes | Yes |
 | Validate | Yes | Yes |
+| Expand | Yes | Yes |
+| Map | 10 → 11 | 11 → 10 |
+| Postcoordination | No | Yes |
+| Releases | Yes | Yes |
+| Diff | Yes | Yes |
+| Foundation | No | Yes |
 | Coding Rules | Yes | Yes |
 | Overview | Yes | Yes |
 
-*ICD-10 search not supported by WHO API
+*ICD-10 search uses a local index (not supported by the WHO API)
 
 ## More Info
 - ICD-10: https://icd.who.int/browse10
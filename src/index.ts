@@ -8,38 +8,290 @@
 import { createMcpHandler } from "agents/mcp";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { WHOICDClient } from "./client";
+import { TokenStore } from "./token";
+import { Crosswalk } from "./mapping";
+import { ICD10SearchIndex, kvIndexLoader } from "./searchindex";
+import { SnapshotStore } from "./snapshot";
+import { EntityCache, KVEntityCache, CacheApiEntityCache, parseTtl, DEFAULT_ENTITY_TTL, DEFAULT_CODEINFO_TTL } from "./cache";
 import { handleAction } from "./handlers";
-import { Env, SERVER_NAME, SERVER_VERSION, ICDParams } from "./types";
+import { registerResources } from "./resources";
+import { registerPrompts } from "./prompts";
+import { handleFhirRequest, fhirError, FHIR_BASE_PATH } from "./fhir";
+import { Authenticator, Tenant, parseTenants } from "./auth";
+import { UnauthorizedError, UpstreamUnavailableError } from "./errors";
+import {
+  RateLimitPolicy,
+  RateLimitStatus,
+  chargeCaller,
+  mcpRequestCost,
+  fhirRequestCost,
+  rateLimitHeaders,
+  quotaExceededMessage,
+  DEFAULT_RATE_LIMIT,
+  DEFAULT_DAILY_QUOTA,
+} from "./ratelimit";
+import { Env, SERVER_NAME, SERVER_VERSION, ICDParams, ICDOutputShape } from "./types";
 
 /**
- * Create MCP server with single tool configured for the given environment
+ * Parse an optional non-negative integer environment variable
  */
-function createServer(env: Env) {
+function parseIntVar(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+/**
+ * Select the entity cache backend: Workers KV if bound, otherwise the Cache API
+ */
+function createCache(env: Env): EntityCache {
+  if (env.ICD_CACHE) {
+    return new KVEntityCache(env.ICD_CACHE);
+  }
+  return new CacheApiEntityCache(caches.default);
+}
+
+/**
+ * Offline snapshot store when ICD_OFFLINE is set (snapshots exported to R2)
+ */
+function createSnapshots(env: Env): SnapshotStore | undefined {
+  if (env.ICD_OFFLINE !== "true") return undefined;
+
+  const bucket = env.ICD_SNAPSHOTS;
+  if (!bucket) {
+    throw new Error("ICD_OFFLINE is set but no R2 bucket is bound as ICD_SNAPSHOTS");
+  }
+  return new SnapshotStore(async (key) => {
+    const object = await bucket.get(key);
+    return object ? object.text() : null;
+  });
+}
+
+/**
+ * Deployment misconfiguration that makes /mcp and /fhir unusable, if any
+ */
+function configurationError(env: Env): string | null {
+  if (env.ICD_OFFLINE === "true" && !env.ICD_SNAPSHOTS) {
+    return "ICD_OFFLINE is set but no R2 bucket is bound as ICD_SNAPSHOTS";
+  }
+  return null;
+}
+
+/**
+ * WHO credentials are set (the tenant's or the deployment's), or not needed
+ * because the server runs offline
+ */
+function credentialsConfigured(env: Env, tenant?: Tenant): boolean {
+  return env.ICD_OFFLINE === "true" || !!tenant?.whoClientId || (!!env.WHO_CLIENT_ID && !!env.WHO_CLIENT_SECRET);
+}
+
+/**
+ * Create a WHO ICD-API client configured for the given environment and tenant,
+ * reading from the snapshot store when offline
+ */
+function createClient(env: Env, tenant?: Tenant, snapshots?: SnapshotStore): WHOICDClient {
+  return new WHOICDClient({
+    clientId: tenant?.whoClientId || env.WHO_CLIENT_ID,
+    clientSecret: tenant?.whoClientSecret || env.WHO_CLIENT_SECRET,
+    icd10Release: tenant?.icd10Release || env.ICD10_RELEASE || "2019",
+    icd11Release: tenant?.icd11Release || env.ICD11_RELEASE || "2024-01",
+    language: tenant?.language || env.WHO_API_LANGUAGE || "en",
+    cache: createCache(env),
+    cacheTtl: {
+      entity: parseTtl(env.ICD_CACHE_TTL, DEFAULT_ENTITY_TTL),
+      codeinfo: parseTtl(env.ICD_CACHE_CODEINFO_TTL, DEFAULT_CODEINFO_TTL),
+    },
+    cacheBypass: env.ICD_CACHE_BYPASS === "true",
+    tokenStore: new TokenStore(env.ICD_CACHE),
+    concurrency: parseIntVar(env.WHO_API_CONCURRENCY),
+    retry: {
+      timeoutMs: parseIntVar(env.WHO_API_TIMEOUT_MS),
+      maxRetries: parseIntVar(env.WHO_API_MAX_RETRIES),
+    },
+    snapshots,
+    apiBaseUrl: env.WHO_API_BASE_URL,
+    tokenEndpoint: env.WHO_TOKEN_ENDPOINT,
+  });
+}
+
+/**
+ * Caller authentication, required when ICD_TENANTS is set
+ */
+function createAuthenticator(env: Env): Authenticator | undefined {
+  if (!env.ICD_TENANTS) return undefined;
+
+  const introspection = env.ICD_OAUTH_INTROSPECTION_URL
+    ? {
+        url: env.ICD_OAUTH_INTROSPECTION_URL,
+        clientId: env.ICD_OAUTH_CLIENT_ID || "",
+        clientSecret: env.ICD_OAUTH_CLIENT_SECRET || "",
+      }
+    : undefined;
+  return new Authenticator(parseTenants(env.ICD_TENANTS), introspection);
+}
+
+/**
+ * OAuth protected resource metadata (RFC 9728), so MCP clients can discover
+ * the authorization server
+ */
+function protectedResourceMetadata(url: URL, env: Env): Response {
+  return new Response(
+    JSON.stringify({
+      resource: `${url.origin}/mcp`,
+      authorization_servers: [env.ICD_OAUTH_ISSUER],
+      bearer_methods_supported: ["header"],
+    }),
+    { headers: { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" } }
+  );
+}
+
+/**
+ * Rejected /mcp or /fhir call: 401 with a bearer challenge (RFC 6750) for bad
+ * credentials, 503 when the introspection endpoint or rate limiter cannot answer
+ */
+function rejectedCallResponse(request: Request, url: URL, env: Env, error: unknown, api: "mcp" | "fhir"): Response {
+  if (!(error instanceof UnauthorizedError) && !(error instanceof UpstreamUnavailableError)) {
+    throw error;
+  }
+  const status = error instanceof UnauthorizedError ? 401 : 503;
+
+  const response =
+    api === "fhir"
+      ? fhirError(status, status === 401 ? "login" : "transient", error.message)
+      : new Response(JSON.stringify({ jsonrpc: "2.0", error: { code: -32001, message: error.message }, id: null }), {
+          status,
+          headers: { "Content-Type": "application/json" },
+        });
+
+  if (status === 401) {
+    const challenge = ['Bearer realm="icd-mcp"'];
+    if (env.ICD_OAUTH_ISSUER) {
+      challenge.push(`resource_metadata="${url.origin}/.well-known/oauth-protected-resource"`);
+    }
+    if (request.headers.has("Authorization") || request.headers.has("X-API-Key")) {
+      challenge.push('error="invalid_token"');
+    }
+    response.headers.set("WWW-Authenticate", challenge.join(", "));
+  }
+  return response;
+}
+
+/**
+ * Server misconfiguration reported in the MCP or FHIR error shape
+ */
+function configurationErrorResponse(message: string, api: "mcp" | "fhir"): Response {
+  if (api === "fhir") {
+    return fhirError(500, "exception", message);
+  }
+  return new Response(JSON.stringify({ jsonrpc: "2.0", error: { code: -32603, message }, id: null }), {
+    status: 500,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Per-caller budget: the tenant's, else the deployment's (null when no
+ * rate limiter is bound)
+ */
+function rateLimitPolicy(env: Env, tenant?: Tenant): RateLimitPolicy | null {
+  if (!env.ICD_RATE_LIMITER) return null;
+  return {
+    perMinute: tenant?.rateLimit ?? parseIntVar(env.ICD_RATE_LIMIT) ?? DEFAULT_RATE_LIMIT,
+    perDay: tenant?.dailyQuota ?? parseIntVar(env.ICD_DAILY_QUOTA) ?? DEFAULT_DAILY_QUOTA,
+  };
+}
+
+/**
+ * Charge the caller (tenant, or client IP) for the WHO API calls a request
+ * makes (see mcpRequestCost and fhirRequestCost). Null when nothing is
+ * limited or charged.
+ */
+async function chargeRequest(
+  request: Request,
+  env: Env,
+  api: "mcp" | "fhir",
+  tenant?: Tenant
+): Promise<RateLimitStatus | null> {
+  const policy = rateLimitPolicy(env, tenant);
+  if (!policy || request.method === "OPTIONS") return null;
+
+  let cost = fhirRequestCost(new URL(request.url).pathname);
+  if (api === "mcp") {
+    if (request.method !== "POST") return null;
+    cost = mcpRequestCost(await request.clone().json().catch(() => null));
+    if (cost === 0) return null;
+  }
+
+  const caller = tenant ? `tenant:${tenant.id}` : `ip:${request.headers.get("CF-Connecting-IP") || "unknown"}`;
+  return chargeCaller(env.ICD_RATE_LIMITER!, caller, cost, policy);
+}
+
+/**
+ * Copy of a response with extra headers
+ */
+function withHeaders(response: Response, headers: Record<string, string>): Response {
+  const copy = new Response(response.body, response);
+  for (const [name, value] of Object.entries(headers)) {
+    copy.headers.set(name, value);
+  }
+  return copy;
+}
+
+/**
+ * Create MCP server with single tool, entity resources and workflow prompts
+ * configured for the given environment, tenant and rate limit status
+ */
+function createServer(env: Env, tenant?: Tenant, quota?: RateLimitStatus | null) {
   const server = new McpServer({
     name: SERVER_NAME,
     version: SERVER_VERSION,
   });
 
-  const client = new WHOICDClient({
-    clientId: env.WHO_CLIENT_ID,
-    clientSecret: env.WHO_CLIENT_SECRET,
-    icd10Release: env.ICD10_RELEASE || "2019",
-    icd11Release: env.ICD11_RELEASE || "2024-01",
-    language: env.WHO_API_LANGUAGE || "en",
-  });
+  const snapshots = createSnapshots(env);
+  const client = createClient(env, tenant, snapshots);
+
+  const services = {
+    crosswalk: env.ICD_MAPPINGS ? new Crosswalk(env.ICD_MAPPINGS) : undefined,
+    // Offline, ICD-10 search runs over the snapshot's own index
+    icd10Index: snapshots
+      ? new ICD10SearchIndex((release, language) => snapshots.icd10Index(release, language))
+      : env.ICD_INDEX ? new ICD10SearchIndex(kvIndexLoader(env.ICD_INDEX)) : undefined,
+  };
 
   // Single tool with action dispatch
-  server.tool("icd", ICDParams.shape, async (args) => {
-    if (!env.WHO_CLIENT_ID || !env.WHO_CLIENT_SECRET) {
-      return {
-        content: [{ type: "text" as const, text: "Error: WHO API credentials not configured" }],
-        isError: true,
-      };
+  server.registerTool(
+    "icd",
+    {
+      inputSchema: ICDParams.shape,
+      outputSchema: ICDOutputShape,
+    },
+    async (args) => {
+      if (!credentialsConfigured(env, tenant)) {
+        return {
+          content: [{ type: "text" as const, text: "Error: WHO API credentials not configured" }],
+          isError: true,
+        };
+      }
+
+      if (quota && !quota.allowed) {
+        return {
+          content: [{ type: "text" as const, text: quotaExceededMessage(quota) }],
+          isError: true,
+        };
+      }
+
+      const params = ICDParams.parse(args);
+      return handleAction(params, client, services);
     }
+  );
 
-    const params = ICDParams.parse(args);
-    return handleAction(params, client);
-  });
+  // Entity resources (icd://10/..., icd://11/...) read straight from the WHO API
+  if (credentialsConfigured(env, tenant)) {
+    registerResources(server, client, quota);
+  }
+
+  // Coding workflow prompts (instructions only; the tool does the API calls)
+  registerPrompts(server);
 
   return server;
 }
@@ -47,24 +299,31 @@ function createServer(env: Env) {
 /**
  * Health endpoint response
  */
-function healthResponse(): Response {
+function healthResponse(env: Env): Response {
   return new Response(
     JSON.stringify({
       status: "healthy",
       server: SERVER_NAME,
       version: SERVER_VERSION,
       description: "WHO ICD-10 and ICD-11 Classification MCP Server",
+      mode: env.ICD_OFFLINE === "true" ? "offline" : "online",
+      auth: env.ICD_TENANTS ? "required" : "none",
+      rateLimit: rateLimitPolicy(env),
       endpoints: {
         mcp: "/mcp",
         health: "/health",
+        fhir: ["/fhir/CodeSystem/$lookup", "/fhir/CodeSystem/$validate-code", "/fhir/ValueSet/$expand"],
       },
       tool: {
         name: "icd",
         actions: [
-          "lookup", "search", "autocode", "browse", "chapters", "children",
-          "ancestors", "validate", "coding_rules", "overview", "api", "help",
+          "lookup", "search", "autocode", "code_note", "browse", "chapters", "children",
+          "ancestors", "validate", "expand", "map", "postcoordination", "releases", "diff",
+          "foundation", "foundation_search", "coding_rules", "overview", "api", "help",
         ],
       },
+      resources: ["icd://10/{release}/{code}", "icd://11/{release}/mms/{code}"],
+      prompts: ["code_discharge_summary", "verify_claim_codes", "convert_icd10_to_icd11"],
       documentation: "https://icd.who.int/icdapi",
     }),
     {
@@ -76,6 +335,9 @@ function healthResponse(): Response {
   );
 }
 
+// Durable Object class for ICD_RATE_LIMITER
+export { RateLimiter } from "./ratelimit";
+
 /**
  * Main Cloudflare Worker fetch handler
  */
@@ -85,16 +347,55 @@ export default {
 
     // Health check endpoint
     if (url.pathname === "/health" || url.pathname === "/") {
-      return healthResponse();
+      return healthResponse(env);
+    }
+
+    if (url.pathname === "/.well-known/oauth-protected-resource" && env.ICD_OAUTH_ISSUER) {
+      return protectedResourceMetadata(url, env);
+    }
+
+    const api = url.pathname === "/mcp" ? "mcp" : url.pathname.startsWith(`${FHIR_BASE_PATH}/`) ? "fhir" : null;
+    if (!api) {
+      return new Response("Not Found", { status: 404 });
+    }
+
+    const misconfigured = configurationError(env);
+    if (misconfigured) {
+      return configurationErrorResponse(misconfigured, api);
+    }
+
+    // CORS preflights carry no credentials; the MCP handler answers them
+    let tenant: Tenant | undefined;
+    if (request.method !== "OPTIONS") {
+      try {
+        tenant = await createAuthenticator(env)?.authenticate(request);
+      } catch (error) {
+        return rejectedCallResponse(request, url, env, error, api);
+      }
+    }
+
+    let quota: RateLimitStatus | null;
+    try {
+      quota = await chargeRequest(request, env, api, tenant);
+    } catch (error) {
+      return rejectedCallResponse(request, url, env, error, api);
     }
+    let response: Response;
 
-    // MCP endpoint - streamable HTTP transport
-    if (url.pathname === "/mcp") {
-      const server = createServer(env);
+    if (api === "mcp") {
+      // MCP endpoint - streamable HTTP transport
+      const server = createServer(env, tenant, quota);
       const handler = createMcpHandler(server);
-      return handler(request, env, ctx);
+      response = await handler(request, env, ctx);
+    } else if (quota && !quota.allowed) {
+      response = fhirError(429, "throttled", quotaExceededMessage(quota));
+    } else if (!credentialsConfigured(env, tenant)) {
+      response = fhirError(500, "exception", "WHO API credentials not configured");
+    } else {
+      // FHIR R4 terminology operations
+      response = await handleFhirRequest(request, createClient(env, tenant, createSnapshots(env)));
     }
 
-    return new Response("Not Found", { status: 404 });
+    return quota ? withHeaders(response, rateLimitHeaders(quota)) : response;
   },
 };
@@ -0,0 +1,148 @@
+/**
+ * ICD MCP Server - ICD-10 ↔ ICD-11 Crosswalk
+ *
+ * Loads WHO's published 10-to-11 / 11-to-10 mapping tables (tab-separated
+ * .txt files from the ICD-11 MMS mapping release) from an R2 bucket.
+ */
+
+import { ICDVersion, normalizeCode } from "./codes";
+import { IsolateMemo } from "./memo";
+
+// File names as published by WHO in the ICD-11 mapping archive
+export const MAP_10_TO_11 = "10To11MapToMultipleCategories.txt";
+export const MAP_10_TO_11_FALLBACK = "10To11MapToOneCategory.txt";
+export const MAP_11_TO_10 = "11To10MapToOneCategory.txt";
+
+export type MappingCardinality = "one-to-one" | "one-to-many" | "no-map" | "not-in-table";
+
+export interface MappingTarget {
+  code: string;
+  title: string;
+  uri?: string;
+}
+
+export interface CrosswalkResult {
+  code: string;
+  from: ICDVersion;
+  to: ICDVersion;
+  sourceTitle?: string;
+  cardinality: MappingCardinality;
+  targets: MappingTarget[];
+}
+
+interface MappingRow {
+  sourceTitle: string;
+  target?: MappingTarget;
+}
+
+type MappingTable = Map<string, MappingRow[]>;
+
+// Parsed tables
+const tables = new IsolateMemo<MappingTable | null>();
+
+/**
+ * Parse a WHO mapping table, locating columns by header name
+ * (icd10Code, icd10Title, icd11Code, icd11Title, icd11Id)
+ */
+export function parseMappingTable(text: string, from: ICDVersion): MappingTable {
+  const to = from === "10" ? "11" : "10";
+  const lines = text.split(/\r?\n/).filter((line) => line.trim().length > 0);
+  const table: MappingTable = new Map();
+  if (lines.length === 0) return table;
+
+  const header = lines[0].split("\t").map((h) => h.trim());
+  const column = (name: string) => header.indexOf(name);
+  const sourceCode = column(`icd${from}Code`);
+  const sourceTitle = column(`icd${from}Title`);
+  const targetCode = column(`icd${to}Code`);
+  const targetTitle = column(`icd${to}Title`);
+  const targetId = column(`icd${to}Id`);
+
+  if (sourceCode < 0 || targetCode < 0) {
+    throw new Error(`Mapping table is missing icd${from}Code / icd${to}Code columns`);
+  }
+
+  for (const line of lines.slice(1)) {
+    const cells = line.split("\t").map((c) => c.trim());
+    const code = normalizeCode(cells[sourceCode] || "");
+    if (!code) continue;
+
+    const target = normalizeCode(cells[targetCode] || "");
+    const row: MappingRow = {
+      sourceTitle: cleanTitle(cells[sourceTitle]),
+      target: target && target !== "NOMAP"
+        ? {
+            code: target,
+            title: cleanTitle(cells[targetTitle]),
+            uri: targetId >= 0 && cells[targetId] ? cells[targetId] : undefined,
+          }
+        : undefined,
+    };
+
+    const rows = table.get(code);
+    if (rows) {
+      rows.push(row);
+    } else {
+      table.set(code, [row]);
+    }
+  }
+
+  return table;
+}
+
+/**
+ * WHO titles carry hierarchy dashes ("- - Cholera") for depth; strip them
+ */
+function cleanTitle(title: string | undefined): string {
+  return (title || "").replace(/^(-\s*)+/, "").trim();
+}
+
+export class Crosswalk {
+  constructor(private bucket: R2Bucket) {}
+
+  /**
+   * Map a code to the other ICD version
+   */
+  async map(code: string, from: ICDVersion): Promise<CrosswalkResult> {
+    const to: ICDVersion = from === "10" ? "11" : "10";
+    const table = await this.table(from);
+    const normalized = normalizeCode(code);
+    const rows = table.get(normalized);
+
+    if (!rows) {
+      return { code: normalized, from, to, cardinality: "not-in-table", targets: [] };
+    }
+
+    // De-duplicate targets (multiple-category tables can repeat a code)
+    const seen = new Set<string>();
+    const targets: MappingTarget[] = [];
+    for (const row of rows) {
+      if (row.target && !seen.has(row.target.code)) {
+        seen.add(row.target.code);
+        targets.push(row.target);
+      }
+    }
+
+    const cardinality: MappingCardinality =
+      targets.length === 0 ? "no-map" : targets.length === 1 ? "one-to-one" : "one-to-many";
+
+    return { code: normalized, from, to, sourceTitle: rows[0].sourceTitle, cardinality, targets };
+  }
+
+  private async table(from: ICDVersion): Promise<MappingTable> {
+    const names = from === "10" ? [MAP_10_TO_11, MAP_10_TO_11_FALLBACK] : [MAP_11_TO_10];
+
+    for (const name of names) {
+      const table = await tables.get(name, () => this.load(name, from));
+      if (table) return table;
+    }
+
+    throw new Error(`Mapping table not found in R2 bucket: ${names.join(" or ")}`);
+  }
+
+  private async load(name: string, from: ICDVersion): Promise<MappingTable | null> {
+    const object = await this.bucket.get(name);
+    if (!object) return null;
+    return parseMappingTable(await object.text(), from);
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * ICD MCP Server - Isolate Memo
+ *
+ * Module-scope promise cache for data that is expensive to load and rarely
+ * changes (indexes, mapping tables, release listings). Each memo is shared
+ * by every request served by an isolate; concurrent callers for the same key
+ * await the same load.
+ */
+
+export class IsolateMemo<T> {
+  private entries = new Map<string, { value: Promise<T>; expiresAt: number }>();
+
+  // ttlMs: how long a loaded value is kept (default: for the isolate's lifetime)
+  constructor(private ttlMs: number = Infinity) {}
+
+  /**
+   * Result for a key, loading it on first use or once it has expired.
+   * Missing results (null or undefined) and failures are not memoized, so
+   * the next call retries.
+   */
+  get(key: string, load: () => Promise<T>): Promise<T> {
+    const cached = this.entries.get(key);
+    if (cached && Date.now() < cached.expiresAt) {
+      return cached.value;
+    }
+
+    const entry = { value: load(), expiresAt: Date.now() + this.ttlMs };
+    this.entries.set(key, entry);
+    const forget = () => {
+      if (this.entries.get(key) === entry) this.entries.delete(key);
+    };
+    entry.value.then((value) => { if (value === null || value === undefined) forget(); }, forget);
+    return entry.value;
+  }
+}
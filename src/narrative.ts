@@ -0,0 +1,240 @@
+/**
+ * ICD MCP Server - Clinical Narrative Coding
+ *
+ * Splits a free-text note into candidate clinical phrases (sentences, then
+ * conjunctions), tracks negation scope NegEx-style ("no fever or cough but
+ * headache" negates fever and cough only), autocodes each affirmed phrase and
+ * merges the results into an ordered code list with evidence spans.
+ */
+
+import { WHOICDClient } from "./client";
+import { FetchScheduler } from "./scheduler";
+import { ICDAutocodeResult } from "./types";
+import { ICDError } from "./errors";
+
+// Phrases coded per note, and phrases autocoded concurrently
+export const MAX_NARRATIVE_PHRASES = 30;
+const NARRATIVE_CONCURRENCY = 4;
+
+// Sentence ends: . ! ? ; or newline (not decimal points such as 7.5)
+const SENTENCE_BREAK = /(?:[.!?;](?=\s|$)|\n)+/g;
+
+// Separators between phrases in a sentence; the captured word drives negation scope.
+// "with" after a lead-in verb ("presents with") is not a separator.
+const PHRASE_BREAK = /\s*(?:,|:|\b(and|or|(?<!(?:presents|presenting|diagnosed|associated|consistent|along|together)\s+)with|without|plus|also|as well as|but|however|except|although)\b)\s*/gi;
+
+// Negation cues that open a scope at the start of a phrase
+const PRE_NEGATION = /^(?:no evidence of|no signs? of|no history of|negative for|free of|absence of|denies|denied|no|not|without|ruled out)\b\s*/i;
+
+// Affirmation cues that end a negation scope ("denies fever, reports cough")
+const AFFIRMATION = /^(?:reports|reported|endorses|positive for|presents with|presenting with|complains of|c\/o)\b/i;
+
+// Negation cues that close a phrase ("pneumonia ruled out")
+const POST_NEGATION = /\s*\b(?:ruled out|was negative|is negative|excluded|absent|not present)$/i;
+
+// Separators that end a negation scope
+const SCOPE_TERMINATORS = new Set(["but", "however", "except", "although"]);
+
+// Lead-in words that carry no clinical meaning. "a" stays when it begins an
+// abbreviation ("a fib", "a flutter").
+const LEAD_IN = /^(?:(?:the|a(?![\s-]+(?:fib|flutter)\b)|an|patient|pt|he|she|they|also|known|history of|hx of|h\/o|has|have|had|is|was|reports|reported|endorses|positive for|presents with|presenting with|complains of|c\/o|diagnosed with|dx of|suffers from|with|of)\b\s*)+/i;
+
+export interface NarrativeSpan {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface NarrativePhrase extends NarrativeSpan {
+  negated: boolean;
+  negationCue?: string;
+}
+
+export interface NarrativeCode {
+  code: string;
+  title: string;
+  score?: number;
+  // Every phrase that produced this code, in note order
+  evidence: NarrativeSpan[];
+}
+
+export interface NarrativeCoding {
+  // Proposed codes, ordered by first mention
+  codes: NarrativeCode[];
+  // Negated findings (not coded)
+  negated: NarrativePhrase[];
+  // Matches below the score threshold
+  lowConfidence: Array<NarrativeSpan & { code: string; title: string; score?: number }>;
+  // Phrases with no match, or that could not be coded because the WHO API failed
+  unmatched: Array<NarrativeSpan & { reason?: string }>;
+  // Affirmed phrases beyond MAX_NARRATIVE_PHRASES
+  skipped: number;
+}
+
+/**
+ * Split a note into phrases with character offsets and negation flags
+ */
+export function segmentNarrative(note: string): NarrativePhrase[] {
+  const phrases: NarrativePhrase[] = [];
+
+  for (const sentence of spans(note, SENTENCE_BREAK, 0)) {
+    let scope: string | undefined;
+
+    for (const { text, start, separator } of phraseSpans(sentence)) {
+      if (separator && SCOPE_TERMINATORS.has(separator)) scope = undefined;
+      if (separator === "without") scope = "without";
+      if (AFFIRMATION.test(text)) scope = undefined;
+
+      let phrase = text;
+      let offset = start;
+
+      // Lead-ins may come before and after the cue ("patient has no history of asthma")
+      for (;;) {
+        const lead = phrase.match(LEAD_IN);
+        if (lead) {
+          phrase = phrase.slice(lead[0].length);
+          offset += lead[0].length;
+        }
+
+        const pre = phrase.match(PRE_NEGATION);
+        if (!pre) break;
+        scope = pre[0].trim().toLowerCase();
+        phrase = phrase.slice(pre[0].length);
+        offset += pre[0].length;
+      }
+
+      let cue = scope;
+      const post = phrase.match(POST_NEGATION);
+      if (post) {
+        cue = post[0].trim().toLowerCase();
+        phrase = phrase.slice(0, phrase.length - post[0].length);
+      }
+
+      phrase = phrase.trim();
+      // Two letters are enough for an abbreviation (MI, DM, AF, HF, PE)
+      if (phrase.length < 2 || !/[a-z]/i.test(phrase)) continue;
+
+      phrases.push({
+        text: phrase,
+        start: offset,
+        end: offset + phrase.length,
+        negated: cue !== undefined,
+        negationCue: cue,
+      });
+    }
+  }
+
+  return phrases;
+}
+
+/**
+ * Number of phrases codeNarrative would autocode for a note
+ */
+export function countCodedPhrases(note: string): number {
+  const affirmed = segmentNarrative(note).filter((p) => !p.negated);
+  return Math.min(new Set(affirmed.map((p) => p.text.toLowerCase())).size, MAX_NARRATIVE_PHRASES);
+}
+
+/**
+ * Split text on a pattern, keeping the offsets of the non-empty pieces
+ */
+function spans(text: string, pattern: RegExp, base: number): NarrativeSpan[] {
+  const pieces: NarrativeSpan[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(pattern)) {
+    pieces.push({ text: text.slice(last, match.index), start: base + last, end: base + match.index! });
+    last = match.index! + match[0].length;
+  }
+  pieces.push({ text: text.slice(last), start: base + last, end: base + text.length });
+
+  return pieces
+    .map((piece) => {
+      const leading = piece.text.length - piece.text.trimStart().length;
+      const text = piece.text.trim();
+      return { text, start: piece.start + leading, end: piece.start + leading + text.length };
+    })
+    .filter((piece) => piece.text.length > 0);
+}
+
+/**
+ * Split a sentence into phrases, remembering the separator word before each
+ */
+function phraseSpans(sentence: NarrativeSpan): Array<NarrativeSpan & { separator?: string }> {
+  const pieces: Array<NarrativeSpan & { separator?: string }> = [];
+  let last = 0;
+  let separator: string | undefined;
+
+  for (const match of sentence.text.matchAll(PHRASE_BREAK)) {
+    pieces.push({ text: sentence.text.slice(last, match.index), start: sentence.start + last, end: 0, separator });
+    separator = match[1]?.toLowerCase();
+    last = match.index! + match[0].length;
+  }
+  pieces.push({ text: sentence.text.slice(last), start: sentence.start + last, end: 0, separator });
+
+  return pieces
+    .filter((piece) => piece.text.trim().length > 0)
+    .map((piece) => ({ ...piece, end: piece.start + piece.text.length }));
+}
+
+/**
+ * Segment a note, autocode each affirmed phrase and merge duplicate codes
+ */
+export async function codeNarrative(note: string, client: WHOICDClient, minScore: number): Promise<NarrativeCoding> {
+  const phrases = segmentNarrative(note);
+  const negated = phrases.filter((p) => p.negated);
+
+  // Identical phrases are coded once
+  const affirmed = phrases.filter((p) => !p.negated);
+  const unique = [...new Set(affirmed.map((p) => p.text.toLowerCase()))];
+  const coded = unique.slice(0, MAX_NARRATIVE_PHRASES);
+
+  const scheduler = new FetchScheduler(NARRATIVE_CONCURRENCY);
+  const results = new Map<string, { match: ICDAutocodeResult | null; reason?: string }>();
+  await Promise.all(
+    coded.map((text) =>
+      scheduler.run(text, async () => {
+        try {
+          results.set(text, { match: await client.autocodeICD11(text) });
+        } catch (error) {
+          if (!(error instanceof ICDError)) throw error;
+          results.set(text, { match: null, reason: error.message });
+        }
+      })
+    )
+  );
+
+  const coding: NarrativeCoding = {
+    codes: [],
+    negated,
+    lowConfidence: [],
+    unmatched: [],
+    skipped: unique.length - coded.length,
+  };
+
+  const byCode = new Map<string, NarrativeCode>();
+  for (const phrase of affirmed) {
+    const result = results.get(phrase.text.toLowerCase());
+    if (!result) continue;
+
+    const span: NarrativeSpan = { text: phrase.text, start: phrase.start, end: phrase.end };
+    const match = result.match;
+
+    if (!match || !match.code) {
+      coding.unmatched.push(result.reason ? { ...span, reason: result.reason } : span);
+    } else if ((match.score ?? 0) < minScore) {
+      coding.lowConfidence.push({ ...span, code: match.code, title: match.title, score: match.score });
+    } else {
+      const existing = byCode.get(match.code);
+      if (existing) {
+        existing.evidence.push(span);
+      } else {
+        const entry: NarrativeCode = { code: match.code, title: match.title, score: match.score, evidence: [span] };
+        byCode.set(match.code, entry);
+        coding.codes.push(entry);
+      }
+    }
+  }
+
+  return coding;
+}
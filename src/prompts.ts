@@ -0,0 +1,173 @@
+/**
+ * ICD MCP Server - Workflow Prompts
+ *
+ * Built-in MCP prompts for common coding workflows. Each one expands into
+ * step-by-step instructions for driving the `icd` tool (autocode, validate,
+ * ancestors, map, coding_rules) and embeds the relevant coding rules, so every
+ * host gets the same sequencing guidance as the coding_rules action.
+ */
+
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { CODING_RULES } from "./handlers";
+
+const VersionArg = z.enum(["10", "11"]).optional().describe("ICD version: 10 or 11 (default: 11)");
+
+/**
+ * Single user message carrying the workflow instructions
+ */
+function instructions(text: string): GetPromptResult {
+  return { messages: [{ role: "user", content: { type: "text", text } }] };
+}
+
+/**
+ * Code list from free text (one per line, or comma/semicolon separated).
+ * Spaces are kept, so cluster expressions ("BA00 & XS28") stay whole.
+ */
+function codeList(codes: string): string[] {
+  return codes.split(/[\n,;]+/).map((code) => code.trim().toUpperCase()).filter(Boolean);
+}
+
+/**
+ * Code a discharge summary: extract diagnoses, code each one, check and sequence them
+ */
+export function dischargeSummaryPrompt(text: string, version: "10" | "11" = "11"): GetPromptResult {
+  const coding =
+    version === "11"
+      ? `   {"action": "autocode", "query": "<diagnosis as documented>"}
+   - verdict "match": take the code, but read the candidates if the runner-up is close.
+   - verdict "ambiguous": compare the candidates with {"action": "lookup", "code": "..."} (definition, inclusions, exclusions) and pick the one the documentation supports.
+   - verdict "no_match": rephrase with the clinical term, or {"action": "search", "query": "..."}.`
+      : `   {"action": "search", "query": "<diagnosis as documented>", "version": "10"}
+   - Compare the hits with {"action": "lookup", "code": "...", "version": "10"} (inclusions, exclusions) and pick the one the documentation supports.`;
+
+  return instructions(`Code the following discharge summary in ICD-${version} using the \`icd\` tool.
+
+## Discharge summary
+
+${text}
+
+## Steps
+
+1. List every diagnosis the summary documents: the main condition (reason for the admission) and other conditions treated or affecting care. Leave out findings that are negated, ruled out or only suspected, and quote the sentence each diagnosis comes from.
+2. Code each diagnosis:
+${coding}
+3. Validate every chosen code: {"action": "validate", "codes": ["...", "..."], "version": "${version}"}, and replace invalid ones. If {"action": "children", "code": "...", "version": "${version}"} lists more specific codes, use the most specific one the documentation supports.
+4. Check each code's placement with {"action": "ancestors", "code": "...", "version": "${version}"}: the chapter should match the clinical context (e.g. an infection coded under an infectious chapter, not a symptom).
+5. Sequence the codes using the rules below.
+
+${CODING_RULES.sequencing}
+${version === "11" ? `\n${CODING_RULES.clustering}\n` : `\n${CODING_RULES.dagger_asterisk}\n`}
+## Output
+
+A table in sequence order: Code | Title | Role (main / other) | Evidence (quoted) | Confidence. Below it, list anything a coder should query with the clinician (missing specificity, conflicting documentation).`);
+}
+
+/**
+ * Verify a claim's diagnosis codes against the classification and, if given, the documentation
+ */
+export function verifyClaimPrompt(codes: string, documentation?: string, version?: "10" | "11"): GetPromptResult {
+  const list = codeList(codes);
+  const versionArg = version || "mixed";
+
+  return instructions(`Verify the diagnosis codes on this claim using the \`icd\` tool.
+
+## Codes
+
+${list.map((code, i) => `${i + 1}. ${code}`).join("\n")}
+${documentation ? `\n## Clinical documentation\n\n${documentation}\n` : ""}
+## Steps
+
+1. Validate all codes at once: {"action": "validate", "codes": ${JSON.stringify(list)}, "version": "${versionArg}"}. Flag every code that is invalid or could not be verified. For the valid ones, {"action": "validate", "code": "..."} reports whether the code is a leaf; flag codes where a more specific child exists.
+2. Trace the codes with {"action": "ancestors", "codes": ${JSON.stringify(list)}, "version": "${versionArg}"} and check that each chapter fits the rest of the claim.
+3. ${documentation
+    ? `Check each code against the documentation: {"action": "lookup", "code": "..."} gives the definition, inclusions and exclusions. Flag codes the documentation does not support, and documented diagnoses with no code (find them with {"action": "autocode", "query": "..."} for ICD-11, or {"action": "search", "query": "...", "version": "10"}).`
+    : `Read each code's definition and exclusions with {"action": "lookup", "code": "..."} and flag pairs of codes that exclude each other.`}
+4. Check the order of the codes against the rules below.
+
+${CODING_RULES.sequencing}
+
+${CODING_RULES.dagger_asterisk}
+
+${CODING_RULES.extension_codes}
+
+## Output
+
+One row per code: Code | Status (valid / invalid / could not verify) | Specific enough | Supported | Issue. Then the corrected code list in sequence order, with the reason for each change.`);
+}
+
+/**
+ * Convert an ICD-10 code list to ICD-11 through the WHO mapping tables
+ */
+export function convertICD10Prompt(codes: string): GetPromptResult {
+  const list = codeList(codes);
+
+  return instructions(`Convert these ICD-10 codes to ICD-11 using the \`icd\` tool.
+
+## ICD-10 codes
+
+${list.map((code, i) => `${i + 1}. ${code}`).join("\n")}
+
+## Steps
+
+1. Map each code with WHO's crosswalk: {"action": "map", "code": "...", "version": "10"}.
+   - "one-to-one": take the target.
+   - "one-to-many": look up each target with {"action": "lookup", "code": "..."} and pick the one that matches the ICD-10 title; note the alternatives.
+   - "no-map" or "not-in-table": look up the ICD-10 title ({"action": "lookup", "code": "...", "version": "10"}) and autocode it: {"action": "autocode", "query": "<ICD-10 title>"}.
+2. Validate the ICD-11 codes: {"action": "validate", "codes": ["..."], "version": "11"}.
+3. Where ICD-10 combined an etiology and a manifestation (dagger/asterisk), or the ICD-11 target is less specific than the source, express the lost detail with postcoordination ({"action": "postcoordination", "code": "..."}) and the clustering rules below.
+4. Keep the order of the source list; the main condition stays first.
+
+${CODING_RULES.dagger_asterisk}
+
+${CODING_RULES.clustering}
+
+## Output
+
+One row per source code: ICD-10 | ICD-10 title | ICD-11 | ICD-11 title | Mapping (one-to-one / one-to-many / autocoded) | Notes. Flag every row a coder should review.`);
+}
+
+/**
+ * Register the coding workflow prompts
+ */
+export function registerPrompts(server: McpServer): void {
+  server.registerPrompt(
+    "code_discharge_summary",
+    {
+      title: "Code a discharge summary",
+      description: "Extract the diagnoses from a discharge summary, code them, validate them and put them in sequence",
+      argsSchema: {
+        text: z.string().describe("Discharge summary text"),
+        version: VersionArg,
+      },
+    },
+    ({ text, version }) => dischargeSummaryPrompt(text, version)
+  );
+
+  server.registerPrompt(
+    "verify_claim_codes",
+    {
+      title: "Verify a claim's diagnosis codes",
+      description: "Check a claim's diagnosis codes for validity, specificity, sequencing and support in the documentation",
+      argsSchema: {
+        codes: z.string().describe("Diagnosis codes, comma- or newline-separated"),
+        documentation: z.string().optional().describe("Clinical documentation the codes should be supported by"),
+        version: VersionArg.describe("ICD version: 10 or 11 (default: detected per code)"),
+      },
+    },
+    ({ codes, documentation, version }) => verifyClaimPrompt(codes, documentation, version)
+  );
+
+  server.registerPrompt(
+    "convert_icd10_to_icd11",
+    {
+      title: "Convert an ICD-10 list to ICD-11",
+      description: "Map ICD-10 codes to ICD-11 through WHO's mapping tables, falling back to autocoding",
+      argsSchema: {
+        codes: z.string().describe("ICD-10 codes, comma- or newline-separated"),
+      },
+    },
+    ({ codes }) => convertICD10Prompt(codes)
+  );
+}
@@ -0,0 +1,245 @@
+/**
+ * ICD MCP Server - Per-Caller Rate Limits and Daily Quotas
+ *
+ * The WHO API rate-limits the whole deployment, so each caller (tenant, or
+ * client IP when authentication is off) gets its own budget of calls per
+ * minute and per UTC day. Everything that reaches the WHO API is charged: MCP
+ * tool calls, resource reads, listings and completions, and FHIR requests;
+ * batches and subtree walks are weighted by the lookups they fan out into.
+ * One RateLimiter Durable Object per caller holds the counters; the worker
+ * charges it before dispatching and reports what is left in X-RateLimit-* and
+ * X-Quota-* response headers.
+ */
+
+import { MAX_EXPANSION_NODES } from "./client";
+import { UpstreamUnavailableError } from "./errors";
+import { countCodedPhrases } from "./narrative";
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Defaults leave room for the largest single request, a diff of two subtrees
+export const DEFAULT_RATE_LIMIT = 2 * MAX_EXPANSION_NODES;
+export const DEFAULT_DAILY_QUOTA = 50_000;
+
+// Tool actions answered without calling the WHO API
+const REFERENCE_ACTIONS = new Set(["coding_rules", "overview", "help"]);
+
+// Charge for a subtree walk (expand, FHIR $expand): the entities it may fetch.
+// Diff walks two subtrees.
+const SUBTREE_COST = MAX_EXPANSION_NODES;
+
+// Calls allowed per minute and per day (0 = unlimited)
+export interface RateLimitPolicy {
+  perMinute: number;
+  perDay: number;
+}
+
+export interface RateLimitStatus {
+  allowed: boolean;
+  policy: RateLimitPolicy;
+  // Calls left in the current minute and day (after this charge, if allowed)
+  remaining: number;
+  dailyRemaining: number;
+  // Epoch ms when the minute and day windows reset
+  resetAt: number;
+  dailyResetAt: number;
+  // Calls this request costs
+  cost: number;
+  // Set when denied: the budget that ran out ("request": the request alone
+  // costs more than a whole budget), and how long until it resets
+  exceeded?: "minute" | "day" | "request";
+  retryAfterMs?: number;
+}
+
+interface Usage {
+  minute: number;
+  minuteCount: number;
+  day: number;
+  dayCount: number;
+}
+
+interface ChargeRequest {
+  cost: number;
+  policy: RateLimitPolicy;
+}
+
+/**
+ * Durable Object counting one caller's calls. Denied calls are not charged.
+ */
+export class RateLimiter {
+  constructor(private state: DurableObjectState) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const { cost, policy } = (await request.json()) as ChargeRequest;
+    return Response.json(await this.charge(cost, policy, Date.now()));
+  }
+
+  /**
+   * Charge `cost` calls against the policy, unless that would exceed it
+   */
+  async charge(cost: number, policy: RateLimitPolicy, now: number): Promise<RateLimitStatus> {
+    const minute = Math.floor(now / MINUTE_MS);
+    const day = Math.floor(now / DAY_MS);
+
+    const usage = (await this.state.storage.get<Usage>("usage")) ?? { minute, minuteCount: 0, day, dayCount: 0 };
+    if (usage.minute !== minute) {
+      usage.minute = minute;
+      usage.minuteCount = 0;
+    }
+    if (usage.day !== day) {
+      usage.day = day;
+      usage.dayCount = 0;
+    }
+
+    const resetAt = (minute + 1) * MINUTE_MS;
+    const dailyResetAt = (day + 1) * DAY_MS;
+    const overMinute = policy.perMinute > 0 && usage.minuteCount + cost > policy.perMinute;
+    const overDay = policy.perDay > 0 && usage.dayCount + cost > policy.perDay;
+    const tooLarge = (policy.perMinute > 0 && cost > policy.perMinute) || (policy.perDay > 0 && cost > policy.perDay);
+    const allowed = !overMinute && !overDay;
+
+    if (allowed) {
+      usage.minuteCount += cost;
+      usage.dayCount += cost;
+      await this.state.storage.put("usage", usage);
+      // Idle callers don't keep their counters past the day
+      if (usage.dayCount === cost) await this.state.storage.setAlarm(dailyResetAt);
+    }
+
+    return {
+      allowed,
+      policy,
+      remaining: Math.max(0, policy.perMinute - usage.minuteCount),
+      dailyRemaining: Math.max(0, policy.perDay - usage.dayCount),
+      resetAt,
+      dailyResetAt,
+      cost,
+      exceeded: allowed ? undefined : tooLarge ? "request" : overDay ? "day" : "minute",
+      // Waiting never admits a request larger than the budget
+      retryAfterMs: allowed || tooLarge ? undefined : (overDay ? dailyResetAt : resetAt) - now,
+    };
+  }
+
+  async alarm(): Promise<void> {
+    await this.state.storage.deleteAll();
+  }
+}
+
+/**
+ * Charge a caller's Durable Object for `cost` calls; throws
+ * UpstreamUnavailableError when the Durable Object cannot answer
+ */
+export async function chargeCaller(
+  namespace: DurableObjectNamespace,
+  caller: string,
+  cost: number,
+  policy: RateLimitPolicy
+): Promise<RateLimitStatus> {
+  try {
+    const stub = namespace.get(namespace.idFromName(caller));
+    const response = await stub.fetch("https://rate-limiter/charge", {
+      method: "POST",
+      body: JSON.stringify({ cost, policy } satisfies ChargeRequest),
+    });
+    if (!response.ok) {
+      throw new Error(`status ${response.status}`);
+    }
+    return (await response.json()) as RateLimitStatus;
+  } catch (error) {
+    throw new UpstreamUnavailableError(
+      `Rate limiter unavailable: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Calls charged for one tool call: one per code in a batch, per language in
+ * a multilingual lookup, per phrase coded from a note, or per subtree walked.
+ * Reference actions are free.
+ */
+function toolCallCost(args: Record<string, unknown>): number {
+  if (typeof args.action === "string" && REFERENCE_ACTIONS.has(args.action)) return 0;
+  if (Array.isArray(args.codes) && args.codes.length > 0) return args.codes.length;
+  if (Array.isArray(args.languages) && args.languages.length > 0) return args.languages.length;
+
+  switch (args.action) {
+    case "expand":
+      return SUBTREE_COST;
+    case "diff":
+      return 2 * SUBTREE_COST;
+    case "code_note":
+      return Math.max(1, typeof args.query === "string" ? countCodedPhrases(args.query) : 0);
+    default:
+      return 1;
+  }
+}
+
+/**
+ * Calls charged for an MCP request body (single message or batch). Messages
+ * that never reach the WHO API (initialize, tools/list, prompts, reference
+ * actions) are free.
+ */
+export function mcpRequestCost(body: unknown): number {
+  const messages = Array.isArray(body) ? body : [body];
+  let cost = 0;
+
+  for (const message of messages) {
+    if (typeof message !== "object" || message === null) continue;
+    const { method, params } = message as { method?: unknown; params?: { arguments?: unknown; ref?: { type?: unknown } } };
+
+    if (method === "tools/call") {
+      const args = params?.arguments;
+      cost += typeof args === "object" && args !== null ? toolCallCost(args as Record<string, unknown>) : 1;
+    } else if (method === "resources/read" || method === "resources/list") {
+      cost += 1;
+    } else if (method === "completion/complete" && params?.ref?.type === "ref/resource") {
+      cost += 1;
+    }
+  }
+  return cost;
+}
+
+/**
+ * Calls charged for a FHIR request
+ */
+export function fhirRequestCost(path: string): number {
+  return path.endsWith("/ValueSet/$expand") ? SUBTREE_COST : 1;
+}
+
+/**
+ * Remaining-budget headers (limits of 0 are unlimited and not reported)
+ */
+export function rateLimitHeaders(status: RateLimitStatus): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (status.policy.perMinute > 0) {
+    headers["X-RateLimit-Limit"] = String(status.policy.perMinute);
+    headers["X-RateLimit-Remaining"] = String(status.remaining);
+    headers["X-RateLimit-Reset"] = String(Math.ceil(status.resetAt / 1000));
+  }
+  if (status.policy.perDay > 0) {
+    headers["X-Quota-Limit"] = String(status.policy.perDay);
+    headers["X-Quota-Remaining"] = String(status.dailyRemaining);
+    headers["X-Quota-Reset"] = String(Math.ceil(status.dailyResetAt / 1000));
+  }
+  if (status.retryAfterMs !== undefined) {
+    headers["Retry-After"] = String(Math.ceil(status.retryAfterMs / 1000));
+  }
+  return headers;
+}
+
+/**
+ * Explain a denied call: which budget ran out and when it resets
+ */
+export function quotaExceededMessage(status: RateLimitStatus): string {
+  const retry = Math.ceil((status.retryAfterMs ?? 0) / 1000);
+  const { perMinute, perDay } = status.policy;
+  const limit = perMinute > 0 && status.cost > perMinute ? `${perMinute} calls per minute` : `${perDay} calls per day`;
+  const budget =
+    status.exceeded === "request"
+      ? `this request costs ${status.cost} calls, more than the limit of ${limit}; split it into smaller batches`
+      : status.exceeded === "day"
+        ? `daily quota of ${perDay} calls used up; it resets at ${new Date(status.dailyResetAt).toISOString()}`
+        : `limit of ${perMinute} calls per minute reached; retry in ${retry}s`;
+  return `Rate limit for this caller exceeded: ${budget}.\n\nThe request was not sent to the WHO API; this is not a negative result.`;
+}
@@ -0,0 +1,137 @@
+/**
+ * ICD MCP Server - Resilience Policy
+ *
+ * Retry with jittered exponential backoff, Retry-After parsing, and a
+ * circuit breaker so a WHO ICD-API outage fails fast instead of hanging.
+ */
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  timeoutMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 250,
+  maxDelayMs: 5000,
+  timeoutMs: 10000,
+};
+
+/**
+ * Full-jitter exponential backoff delay for a zero-based retry attempt
+ */
+export function backoffDelay(attempt: number, policy: RetryPolicy): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.floor(Math.random() * ceiling);
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (Number.isFinite(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return null;
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * fetch with a per-request timeout enforced via AbortController
+ */
+export async function fetchWithTimeout(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  fetcher: typeof fetch = fetch
+): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetcher(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number;
+  cooldownMs: number;
+}
+
+/**
+ * Consecutive-failure circuit breaker.
+ * Closed → open after `failureThreshold` failures; after `cooldownMs` a single
+ * probe request is let through (half-open) and its outcome closes or reopens
+ * it. Everyone else keeps failing fast meanwhile; a probe that never reports
+ * back (e.g. it ended in a 401 or 429) is replaced after another `cooldownMs`.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+  private probeAt: number | null = null;
+
+  constructor(
+    private options: CircuitBreakerOptions = { failureThreshold: 5, cooldownMs: 30000 }
+  ) {}
+
+  /**
+   * Milliseconds until the breaker admits another request (0 when closed,
+   * or when half-open with no probe in flight)
+   */
+  retryIn(): number {
+    if (this.openedAt === null) return 0;
+    const since = this.probeAt ?? this.openedAt;
+    return Math.max(0, since + this.options.cooldownMs - Date.now());
+  }
+
+  /**
+   * Whether a request may go out; when half-open, the caller that gets true is the probe
+   */
+  canRequest(): boolean {
+    if (this.openedAt === null) return true;
+    if (this.retryIn() > 0) return false;
+    this.probeAt = Date.now();
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = null;
+    this.probeAt = null;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    if (this.openedAt !== null || this.failures >= this.options.failureThreshold) {
+      this.openedAt = Date.now();
+      this.probeAt = null;
+    }
+  }
+}
+
+// Isolate-wide breakers, keyed by upstream host
+const breakers = new Map<string, CircuitBreaker>();
+
+export function getCircuitBreaker(name: string): CircuitBreaker {
+  let breaker = breakers.get(name);
+  if (!breaker) {
+    breaker = new CircuitBreaker();
+    breakers.set(name, breaker);
+  }
+  return breaker;
+}
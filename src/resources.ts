@@ -0,0 +1,106 @@
+/**
+ * ICD MCP Server - Entity Resources
+ *
+ * Exposes ICD entities as MCP resources so hosts can browse chapters and pin a
+ * code's definition, inclusions, exclusions and coding notes to a conversation:
+ *
+ *   icd://10/{release}/{code}       (icd://10/2019/A00.0)
+ *   icd://11/{release}/mms/{code}   (icd://11/2024-01/mms/1A00)
+ *
+ * Listing returns the chapters of the configured releases. Reads, listings
+ * and release completions call the WHO API and count against the caller's
+ * rate limit.
+ */
+
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { WHOICDClient } from "./client";
+import { formatEntity } from "./handlers";
+import { ICDVersion } from "./codes";
+import { RateLimitStatus, quotaExceededMessage } from "./ratelimit";
+
+const MIME_TYPE = "text/markdown";
+
+// Releases offered when completing the {release} variable
+const MAX_RELEASE_COMPLETIONS = 20;
+
+/**
+ * Resource URI of an ICD code in a release
+ */
+export function resourceUri(version: ICDVersion, release: string, code: string): string {
+  const path = version === "10" ? `${release}/${code}` : `${release}/mms/${code}`;
+  return `icd://${version}/${path}`;
+}
+
+/**
+ * Single value of a URI template variable
+ */
+function variable(value: string | string[] | undefined): string {
+  return decodeURIComponent(Array.isArray(value) ? value[0] || "" : value || "");
+}
+
+/**
+ * Refuse a request the caller has no budget left for
+ */
+function assertQuota(quota?: RateLimitStatus | null): void {
+  if (quota && !quota.allowed) {
+    throw new McpError(ErrorCode.InvalidRequest, quotaExceededMessage(quota));
+  }
+}
+
+/**
+ * Register the ICD-10 and ICD-11 entity resource templates, refusing reads
+ * when the request's rate limit status denies it
+ */
+export function registerResources(server: McpServer, client: WHOICDClient, quota?: RateLimitStatus | null): void {
+  for (const version of ["10", "11"] as const) {
+    const template = new ResourceTemplate(resourceUri(version, "{release}", "{code}"), {
+      list: async () => {
+        assertQuota(quota);
+        const release = client.getRelease(version);
+        const chapters = version === "10" ? await client.getICD10Chapters() : await client.getICD11Chapters();
+        return {
+          resources: chapters.map((chapter) => ({
+            uri: resourceUri(version, release, chapter.code),
+            name: `ICD-${version} chapter ${chapter.code}: ${chapter.title}`,
+            mimeType: MIME_TYPE,
+          })),
+        };
+      },
+      complete: {
+        release: async (value) => {
+          assertQuota(quota);
+          const { releases } = await client.listReleases(version);
+          return releases.filter((release) => release.startsWith(value)).slice(0, MAX_RELEASE_COMPLETIONS);
+        },
+      },
+    });
+
+    server.registerResource(
+      `icd${version}-entity`,
+      template,
+      {
+        title: `ICD-${version} entity`,
+        description: `Definition, inclusions, exclusions and coding notes of an ICD-${version} code in a given release`,
+        mimeType: MIME_TYPE,
+      },
+      async (uri, variables) => {
+        assertQuota(quota);
+        const release = variable(variables.release);
+        const code = variable(variables.code);
+
+        const released = client.withOptions(version === "10" ? { icd10Release: release } : { icd11Release: release });
+        await released.assertRelease(version, release);
+
+        const entity = version === "10" ? await released.getICD10Code(code) : await released.getICD11Code(code);
+        if (!entity) {
+          throw new McpError(ErrorCode.InvalidParams, `ICD-${version} code '${code}' not found in release ${release}`);
+        }
+
+        return {
+          contents: [{ uri: uri.href, mimeType: MIME_TYPE, text: formatEntity(entity, version) }],
+        };
+      }
+    );
+  }
+}
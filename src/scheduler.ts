@@ -0,0 +1,62 @@
+/**
+ * ICD MCP Server - Fetch Scheduler
+ *
+ * Runs WHO API lookups in parallel with a bounded concurrency limit and
+ * coalesces duplicate in-flight requests for the same key.
+ */
+
+export const DEFAULT_CONCURRENCY = 6;
+
+export class FetchScheduler {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private inflight = new Map<string, Promise<unknown>>();
+  private concurrency: number;
+
+  constructor(concurrency: number = DEFAULT_CONCURRENCY) {
+    this.concurrency = Number.isFinite(concurrency) ? Math.max(1, Math.floor(concurrency)) : DEFAULT_CONCURRENCY;
+  }
+
+  /**
+   * Run a task under the concurrency limit; tasks sharing a key while
+   * in flight are executed once and share the result
+   */
+  run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const existing = this.inflight.get(key);
+    if (existing) {
+      return existing as Promise<T>;
+    }
+
+    const promise = this.schedule(task).finally(() => this.inflight.delete(key));
+    this.inflight.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Map items through an async function, preserving input order. All items
+   * start at once: `fn` must go through `run` for the limit to apply.
+   */
+  map<T, R>(items: T[], fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+    return Promise.all(items.map((item, index) => fn(item, index)));
+  }
+
+  private async schedule<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active >= this.concurrency) {
+      // Slot is handed over directly by the finishing task
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    } else {
+      this.active++;
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    }
+  }
+}
@@ -0,0 +1,309 @@
+/**
+ * ICD MCP Server - Local ICD-10 Search Index
+ *
+ * The WHO API has no ICD-10 search, so ICD-10 keyword search runs against a
+ * compact index of category titles and inclusion terms. The index is built
+ * offline by traversing the ICD-10 tabular (scripts/build-icd10-index.ts) and
+ * stored in a KV namespace, one key per release and language.
+ */
+
+import { WHOICDClient } from "./client";
+import { ICDSearchResult } from "./types";
+import { IsolateMemo } from "./memo";
+
+export const INDEX_FORMAT = 1;
+
+// Score for a query word matching a whole index word, or only its start
+const EXACT_WORD = 1;
+const PREFIX_WORD = 0.7;
+
+// Inclusion-term matches rank below title matches of the same quality
+const TERM_WEIGHT = 0.85;
+
+// Shortest query word matched as a prefix ("pneum" → pneumonia)
+const MIN_PREFIX = 3;
+
+// Words that carry no meaning on their own
+const STOPWORDS = new Set(["a", "an", "and", "as", "by", "due", "for", "in", "of", "on", "or", "the", "to"]);
+
+// Query that is a code or code prefix (J18, J18.9, j189, 1A0, BA00)
+const CODE_QUERY = /^(?=.*\d)(?=.*[A-Z])[A-Z0-9]{3,4}(?:\.?[A-Z0-9]{1,4})?$/i;
+
+const ROMAN = ["I", "II", "III", "IV", "V", "VI", "VII", "VIII", "IX", "X", "XI",
+  "XII", "XIII", "XIV", "XV", "XVI", "XVII", "XVIII", "XIX", "XX", "XXI", "XXII"];
+
+// [code, title, chapter, inclusion terms]
+export type IndexEntry = [string, string, string, string[]];
+
+// Serialized ICD-10 index as stored in KV
+export interface ICD10IndexData {
+  format: number;
+  release: string;
+  language: string;
+  // ISO timestamp of the build
+  built: string;
+  entries: IndexEntry[];
+}
+
+// Source of serialized indexes (KV, or an offline snapshot)
+export type IndexLoader = (release: string, language: string) => Promise<ICD10IndexData | null>;
+
+// Ranked match; position is the entry's offset in the source entries
+export interface KeywordHit {
+  position: number;
+  code: string;
+  title: string;
+  chapter: string;
+  score: number;
+  matchedTerm?: string;
+}
+
+interface IndexedField {
+  text: string;
+  words: string[];
+}
+
+interface IndexedEntry {
+  code: string;
+  title: string;
+  chapter: string;
+  // Title first, then inclusion terms
+  fields: IndexedField[];
+}
+
+// Loaded ICD-10 indexes
+const indexes = new IsolateMemo<{ release: string; keywords: KeywordIndex } | null>();
+
+/**
+ * KV key of the ICD-10 index for a release and language
+ */
+export function indexKey(release: string, language: string): string {
+  return `icd10-index:${release}:${language}`;
+}
+
+/**
+ * Lowercase, strip accents and split into words; plurals are folded ("fractures" → "fracture")
+ */
+export function indexWords(text: string): string[] {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 0 && !STOPWORDS.has(word))
+    .map((word) => (word.length > 3 && /[^isu]s$/.test(word) ? word.slice(0, -1) : word));
+}
+
+/**
+ * Chapter filter as the roman numeral ICD-10 uses (10 → X)
+ */
+function chapterCode(chapter: string): string {
+  const trimmed = chapter.trim().toUpperCase();
+  const number = Number(trimmed);
+  return Number.isInteger(number) && number >= 1 && number <= ROMAN.length ? ROMAN[number - 1] : trimmed;
+}
+
+/**
+ * Score one field: mean over query words of the best match, scaled down for
+ * long fields so "Cholera" outranks "Cholera due to Vibrio cholerae 01, biovar eltor"
+ */
+function scoreField(query: string[], field: IndexedField): { score: number; complete: boolean } {
+  let total = 0;
+  let matched = 0;
+
+  for (const word of query) {
+    let best = 0;
+    for (const candidate of field.words) {
+      if (candidate === word) {
+        best = EXACT_WORD;
+        break;
+      }
+      if (word.length >= MIN_PREFIX && candidate.startsWith(word)) best = PREFIX_WORD;
+    }
+    if (best > 0) matched++;
+    total += best;
+  }
+
+  const coverage = total / query.length;
+  const specificity = Math.min(1, query.length / Math.max(field.words.length, 1));
+  return { score: coverage * (0.75 + 0.25 * specificity), complete: matched === query.length };
+}
+
+/**
+ * In-memory keyword index over codes, titles and inclusion terms
+ */
+export class KeywordIndex {
+  private entries: IndexedEntry[];
+  // Word → entries containing it in any field
+  private postings = new Map<string, number[]>();
+
+  constructor(entries: IndexEntry[]) {
+    this.entries = entries.map(([code, title, chapter, terms], i): IndexedEntry => {
+      const fields = [title, ...terms].map((text) => ({ text, words: indexWords(text) }));
+
+      for (const word of new Set(fields.flatMap((field) => field.words))) {
+        const list = this.postings.get(word);
+        if (list) {
+          list.push(i);
+        } else {
+          this.postings.set(word, [i]);
+        }
+      }
+
+      return { code, title, chapter, fields };
+    });
+  }
+
+  /**
+   * Ranked search by code prefix or keywords, optionally within one chapter
+   */
+  search(query: string, maxResults: number, chapter?: string): KeywordHit[] {
+    const inChapter = (entry: IndexedEntry) => !chapter || entry.chapter === chapter;
+    const hit = (position: number, score: number, matchedTerm?: string): KeywordHit => {
+      const entry = this.entries[position];
+      return {
+        position,
+        code: entry.code,
+        title: entry.title,
+        chapter: entry.chapter,
+        score: Math.round(score * 1000) / 1000,
+        ...(matchedTerm ? { matchedTerm } : {}),
+      };
+    };
+
+    // Code or code prefix: the category itself, then its subdivisions
+    const trimmed = query.trim();
+    if (CODE_QUERY.test(trimmed)) {
+      const prefix = trimmed.replace(".", "").toUpperCase();
+      const hits: KeywordHit[] = [];
+      this.entries.forEach((entry, i) => {
+        const code = entry.code.replace(".", "");
+        if (code.startsWith(prefix) && inChapter(entry)) hits.push(hit(i, code === prefix ? 1 : 0.9));
+      });
+      if (hits.length > 0) return hits.slice(0, maxResults);
+    }
+
+    const words = [...new Set(indexWords(query))];
+    if (words.length === 0) return [];
+
+    // Candidates contain at least one query word (or a word it is a prefix of)
+    const candidates = new Set<number>();
+    for (const [word, list] of this.postings) {
+      if (words.some((w) => word === w || (w.length >= MIN_PREFIX && word.startsWith(w)))) {
+        for (const i of list) candidates.add(i);
+      }
+    }
+
+    const scored: Array<{ position: number; score: number; complete: boolean; matchedTerm?: string }> = [];
+    for (const i of candidates) {
+      const entry = this.entries[i];
+      if (!inChapter(entry)) continue;
+
+      let best: { score: number; complete: boolean; matchedTerm?: string } = { score: 0, complete: false };
+      entry.fields.forEach((field, f) => {
+        const { score, complete } = scoreField(words, field);
+        const weighted = f === 0 ? score : score * TERM_WEIGHT;
+        // A field matching every word beats a higher-scoring partial match
+        if (complete !== best.complete ? complete : weighted > best.score) {
+          best = { score: weighted, complete, matchedTerm: f === 0 ? undefined : field.text };
+        }
+      });
+
+      if (best.score > 0) scored.push({ position: i, ...best });
+    }
+
+    // Entries matching every query word in one field hide partial matches
+    const complete = scored.filter((s) => s.complete);
+    const ranked = complete.length > 0 ? complete : scored;
+
+    return ranked
+      .sort((a, b) => b.score - a.score || this.entries[a.position].code.localeCompare(this.entries[b.position].code))
+      .slice(0, maxResults)
+      .map((s) => hit(s.position, s.score, s.matchedTerm));
+  }
+}
+
+/**
+ * Build an index by traversing the ICD-10 tabular of the client's release and
+ * language. Issues one WHO API request per chapter, block and category (~12,000
+ * for ICD-10 2019), so run it offline; see scripts/build-icd10-index.ts.
+ */
+export async function buildICD10Index(
+  client: WHOICDClient,
+  onProgress?: (chapter: string, entries: number) => void
+): Promise<ICD10IndexData> {
+  const entries: IndexEntry[] = [];
+
+  for (const chapter of await client.getICD10Chapters()) {
+    let level = [chapter.uri];
+
+    while (level.length > 0) {
+      const entities = await client.getEntitiesByUri(level);
+      level = [];
+
+      for (const entity of entities) {
+        if (entity.children) level.push(...entity.children);
+        if (entity.classKind === "category" || (entity.classKind === undefined && /^[A-Z]\d{2}/.test(entity.code))) {
+          entries.push([entity.code, entity.title, chapter.code, entity.inclusions || []]);
+        }
+      }
+    }
+
+    onProgress?.(chapter.code, entries.length);
+  }
+
+  entries.sort((a, b) => a[0].localeCompare(b[0]));
+
+  return {
+    format: INDEX_FORMAT,
+    release: client.getRelease("10"),
+    language: client.getLanguage(),
+    built: new Date().toISOString(),
+    entries,
+  };
+}
+
+export class ICD10SearchIndex {
+  constructor(private load: IndexLoader) {}
+
+  /**
+   * Ranked keyword search over ICD-10 titles and inclusion terms
+   * (null when no index is available for the release and language)
+   */
+  async search(
+    query: string,
+    release: string,
+    language: string,
+    maxResults: number = 10,
+    chapterFilter?: string
+  ): Promise<ICDSearchResult[] | null> {
+    const index = await this.index(release, language);
+    if (!index) return null;
+
+    const chapter = chapterFilter ? chapterCode(chapterFilter) : undefined;
+    return index.keywords.search(query, maxResults, chapter).map(({ position, ...hit }) => ({
+      ...hit,
+      uri: `http://id.who.int/icd/release/10/${index.release}/${hit.code}`,
+    }));
+  }
+
+  private async index(release: string, language: string): Promise<{ release: string; keywords: KeywordIndex } | null> {
+    return indexes.get(indexKey(release, language), () => this.fetch(release, language));
+  }
+
+  private async fetch(release: string, language: string): Promise<{ release: string; keywords: KeywordIndex } | null> {
+    const data = await this.load(release, language);
+    if (!data) return null;
+    if (data.format !== INDEX_FORMAT) {
+      throw new Error(`ICD-10 search index for ${release} (${language}) has format ${data.format}; rebuild it with scripts/build-icd10-index.ts`);
+    }
+    return { release: data.release, keywords: new KeywordIndex(data.entries) };
+  }
+}
+
+/**
+ * Load ICD-10 indexes uploaded to a KV namespace
+ */
+export function kvIndexLoader(kv: KVNamespace): IndexLoader {
+  return (release, language) => kv.get<ICD10IndexData>(indexKey(release, language), "json");
+}
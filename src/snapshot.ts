@@ -0,0 +1,298 @@
+/**
+ * ICD MCP Server - Offline Classification Snapshots
+ *
+ * Serves a release without calling id.who.int. A snapshot is an export of the
+ * WHO API's own JSON, one object per entity keyed by its endpoint path, plus a
+ * per-release index of codes, titles and index terms that stands in for the
+ * codeinfo and search endpoints. WHOICDClient answers requests from the
+ * snapshot, so entities parse into the same ICDEntity shapes as online.
+ */
+
+import { WHOICDClient } from "./client";
+import { FetchScheduler } from "./scheduler";
+import { IsolateMemo } from "./memo";
+import { ICDError, NotFoundError } from "./errors";
+import { IndexEntry, ICD10IndexData, KeywordIndex, INDEX_FORMAT } from "./searchindex";
+
+export const SNAPSHOT_FORMAT = 1;
+
+// Parallel WHO API requests while exporting
+export const EXPORT_CONCURRENCY = 8;
+
+// Search hits returned per query (searchICD11 trims to max_results)
+const MAX_SEARCH_RESULTS = 100;
+
+// Release root (/icd/release/10/2019, /icd/release/11/2024-01/mms)
+const RELEASE_ROOT = /^\/icd\/release\/(?:10\/[^/]+|11\/[^/]+\/mms)/;
+
+// Release listings (/icd/release/10, /icd/release/11/mms)
+const RELEASE_LIST = /^\/icd\/release\/(?:10|11\/mms)$/;
+
+const SEARCH = /^\/icd\/release\/11\/[^/]+\/mms\/search$/;
+const CODEINFO = /^\/icd\/release\/11\/[^/]+\/mms\/codeinfo\/(.+)$/;
+
+/** Reads one snapshot object (JSON text) by key: an R2 bucket, KV namespace or bundle */
+export type SnapshotSource = (key: string) => Promise<string | null>;
+
+// Per-release index exported alongside the entities
+export interface SnapshotIndex {
+  format: number;
+  version: string;
+  release: string;
+  language: string;
+  // ISO timestamp of the export
+  exported: string;
+  // Categories only; chapters and blocks are reachable through the tree
+  entries: IndexEntry[];
+  // Entity URI of each entry
+  uris: string[];
+}
+
+interface LoadedIndex {
+  index: SnapshotIndex;
+  // Code → entity URI
+  codes: Map<string, string>;
+  // Built on first search
+  keywords?: KeywordIndex;
+}
+
+// Loaded release indexes
+const indexes = new IsolateMemo<LoadedIndex | null>();
+
+/**
+ * Object key of an endpoint's JSON in a snapshot
+ * (snapshot/en/icd/release/10/2019/A00.json)
+ */
+export function snapshotKey(language: string, endpoint: string): string {
+  return `snapshot/${language}${endpoint}.json`;
+}
+
+/**
+ * Object key of a release root's index (snapshot/en/icd/release/10/2019.index.json)
+ */
+export function snapshotIndexKey(language: string, root: string): string {
+  return snapshotKey(language, `${root}.index`);
+}
+
+/**
+ * Release root endpoint for a classification
+ */
+export function releaseRoot(version: string, release: string): string {
+  return version === "10" ? `/icd/release/10/${release}` : `/icd/release/11/${release}/mms`;
+}
+
+/**
+ * String value of a language-tagged label ({ "@language": "en", "@value": "Cholera" })
+ */
+function labelText(value: unknown): string {
+  if (typeof value === "object" && value !== null) {
+    const text = (value as Record<string, unknown>)["@value"];
+    return typeof text === "string" ? text : "";
+  }
+  return typeof value === "string" ? value : "";
+}
+
+/**
+ * Labels of a term list (inclusion, indexTerm: [{ label: {...} }])
+ */
+function termLabels(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((item) => labelText(typeof item === "object" && item !== null ? (item as Record<string, unknown>).label : item))
+    .filter((text) => text.length > 0);
+}
+
+export class SnapshotStore {
+  constructor(private source: SnapshotSource) {}
+
+  /**
+   * Answer a WHO API request from the snapshot
+   */
+  async request<T>(endpoint: string, params: Record<string, string> | undefined, language: string): Promise<T> {
+    if (RELEASE_LIST.test(endpoint)) {
+      const list = await this.object(language, endpoint);
+      if (!list) throw new ICDError(`No offline snapshots have been exported for language '${language}'`);
+      return list as T;
+    }
+
+    const root = endpoint.match(RELEASE_ROOT)?.[0];
+    if (!root) {
+      throw new ICDError(`${endpoint.split("?")[0]} is not available in offline mode`);
+    }
+
+    if (SEARCH.test(endpoint)) {
+      const { index, keywords } = await this.keywords(language, root);
+      const hits = keywords.search(params?.q || "", MAX_SEARCH_RESULTS, params?.chapterFilter);
+      return {
+        destinationEntities: hits.map((hit) => ({
+          id: index.uris[hit.position],
+          theCode: hit.code,
+          title: hit.title,
+          score: hit.score,
+          chapter: hit.chapter,
+        })),
+      } as T;
+    }
+
+    const codeinfo = endpoint.match(CODEINFO);
+    if (codeinfo) {
+      const { codes } = await this.loaded(language, root);
+      const stemId = codes.get(decodeURIComponent(codeinfo[1]).toUpperCase());
+      if (!stemId) throw new NotFoundError(`Not found: ${endpoint}`);
+      return { code: codeinfo[1], stemId } as T;
+    }
+
+    if (endpoint.endsWith("/autocode")) {
+      throw new ICDError("Autocoding is not available in offline mode. Use search instead.");
+    }
+
+    const data = await this.object(language, endpoint);
+    if (data) return data as T;
+
+    // A missing entity, or a release that was never exported?
+    if (!(await this.object(language, root))) {
+      throw new ICDError(`No offline snapshot of ${root} (${language}). Export it with scripts/export-snapshot.ts.`);
+    }
+    throw new NotFoundError(`Not found: ${endpoint}`);
+  }
+
+  /**
+   * ICD-10 search index data for a release, derived from its snapshot index
+   */
+  async icd10Index(release: string, language: string): Promise<ICD10IndexData | null> {
+    const root = releaseRoot("10", release);
+    const loaded = await this.index(language, root);
+    if (!loaded) return null;
+
+    return {
+      format: INDEX_FORMAT,
+      release,
+      language,
+      built: loaded.index.exported,
+      entries: loaded.index.entries,
+    };
+  }
+
+  private async object(language: string, endpoint: string): Promise<unknown> {
+    const text = await this.source(snapshotKey(language, endpoint));
+    return text === null ? null : JSON.parse(text);
+  }
+
+  private async loaded(language: string, root: string): Promise<LoadedIndex> {
+    const loaded = await this.index(language, root);
+    if (!loaded) {
+      throw new ICDError(`No offline snapshot of ${root} (${language}). Export it with scripts/export-snapshot.ts.`);
+    }
+    return loaded;
+  }
+
+  private async keywords(language: string, root: string): Promise<LoadedIndex & { keywords: KeywordIndex }> {
+    const loaded = await this.loaded(language, root);
+    loaded.keywords ??= new KeywordIndex(loaded.index.entries);
+    return loaded as LoadedIndex & { keywords: KeywordIndex };
+  }
+
+  private index(language: string, root: string): Promise<LoadedIndex | null> {
+    const key = snapshotIndexKey(language, root);
+    return indexes.get(key, () => this.loadIndex(key));
+  }
+
+  private async loadIndex(key: string): Promise<LoadedIndex | null> {
+    const text = await this.source(key);
+    if (text === null) return null;
+
+    const index = JSON.parse(text) as SnapshotIndex;
+    if (index.format !== SNAPSHOT_FORMAT) {
+      throw new Error(`Snapshot index '${key}' has format ${index.format}; re-export it with scripts/export-snapshot.ts`);
+    }
+
+    const codes = new Map<string, string>();
+    index.entries.forEach(([code], i) => codes.set(code.toUpperCase(), index.uris[i]));
+    return { index, codes };
+  }
+}
+
+/**
+ * Export the client's release of a classification: every entity reachable
+ * from the release root, then the release index. Issues one WHO API request
+ * per entity (~12,000 for ICD-10, ~40,000 for the ICD-11 MMS), so run it
+ * offline; see scripts/export-snapshot.ts.
+ */
+export async function exportSnapshot(
+  client: WHOICDClient,
+  version: string,
+  write: (key: string, data: unknown) => Promise<void>,
+  onProgress?: (entities: number) => void,
+  concurrency: number = EXPORT_CONCURRENCY
+): Promise<SnapshotIndex> {
+  const release = client.getRelease(version);
+  const language = client.getLanguage();
+  const root = releaseRoot(version, release);
+  const scheduler = new FetchScheduler(concurrency);
+
+  const index: SnapshotIndex = {
+    format: SNAPSHOT_FORMAT,
+    version,
+    release,
+    language,
+    exported: new Date().toISOString(),
+    entries: [],
+    uris: [],
+  };
+
+  const seen = new Set<string>([root]);
+  let level = [{ endpoint: root, chapter: "" }];
+  let exported = 0;
+
+  while (level.length > 0) {
+    const entities = await Promise.all(
+      level.map(({ endpoint }) =>
+        scheduler.run(endpoint, async () => {
+          try {
+            return await client.apiRequest<Record<string, unknown>>(endpoint);
+          } catch (error) {
+            // Children listed but not served in this release
+            if (error instanceof NotFoundError) return null;
+            throw error;
+          }
+        })
+      )
+    );
+
+    const next: typeof level = [];
+    for (let i = 0; i < level.length; i++) {
+      const data = entities[i];
+      if (!data) continue;
+
+      const { endpoint } = level[i];
+      await write(snapshotKey(language, endpoint), data);
+      exported++;
+
+      const code = typeof data.code === "string" ? data.code : "";
+      // Children of the root are chapters; everything below inherits its chapter
+      const chapter = endpoint === root ? "" : level[i].chapter || code;
+
+      if (data.classKind === "category" && code) {
+        const title = labelText(data.title);
+        const terms = [...new Set([...termLabels(data.inclusion), ...termLabels(data.indexTerm)])]
+          .filter((term) => term.toLowerCase() !== title.toLowerCase());
+        index.entries.push([code, title, chapter, terms]);
+        index.uris.push(typeof data["@id"] === "string" ? data["@id"] : `http://id.who.int${endpoint}`);
+      }
+
+      for (const uri of Array.isArray(data.child) ? (data.child as string[]) : []) {
+        const child = uri.replace(/^https?:\/\/id\.who\.int/, "");
+        if (!seen.has(child)) {
+          seen.add(child);
+          next.push({ endpoint: child, chapter });
+        }
+      }
+    }
+
+    onProgress?.(exported);
+    level = next;
+  }
+
+  await write(snapshotIndexKey(language, root), index);
+  return index;
+}
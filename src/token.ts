@@ -0,0 +1,100 @@
+/**
+ * ICD MCP Server - Shared OAuth Token Store
+ *
+ * Holds WHO ICD-API access tokens in module scope (shared by every request
+ * served by an isolate) and optionally in Workers KV (shared across isolates).
+ * Refreshes are single-flight: concurrent callers await the same promise.
+ */
+
+import { KV_MIN_TTL } from "./cache";
+
+export interface AccessToken {
+  accessToken: string;
+  expiresAt: number;
+}
+
+export type TokenFetcher = () => Promise<AccessToken>;
+
+// Isolate-wide state, keyed by WHO client ID
+const memoryTokens = new Map<string, AccessToken>();
+const inflight = new Map<string, Promise<AccessToken>>();
+
+function isValid(token: AccessToken | null | undefined): token is AccessToken {
+  return !!token && Date.now() < token.expiresAt;
+}
+
+export class TokenStore {
+  constructor(private kv?: KVNamespace) {}
+
+  /**
+   * Get a valid access token, refreshing it at most once per key at a time
+   */
+  async getToken(key: string, fetcher: TokenFetcher): Promise<string> {
+    const cached = memoryTokens.get(key);
+    if (isValid(cached)) {
+      return cached.accessToken;
+    }
+
+    let pending = inflight.get(key);
+    if (!pending) {
+      pending = this.load(key, fetcher).finally(() => inflight.delete(key));
+      inflight.set(key, pending);
+    }
+
+    return (await pending).accessToken;
+  }
+
+  /**
+   * Drop a token rejected by the API (only if it is still the current one)
+   */
+  async invalidate(key: string, accessToken: string): Promise<void> {
+    if (memoryTokens.get(key)?.accessToken === accessToken) {
+      memoryTokens.delete(key);
+    }
+
+    if (this.kv) {
+      try {
+        const stored = await this.kv.get<AccessToken>(this.kvKey(key), "json");
+        if (stored?.accessToken === accessToken) {
+          await this.kv.delete(this.kvKey(key));
+        }
+      } catch (error) {
+        console.warn(`Token invalidation failed for ${key}:`, error);
+      }
+    }
+  }
+
+  private async load(key: string, fetcher: TokenFetcher): Promise<AccessToken> {
+    if (this.kv) {
+      try {
+        const stored = await this.kv.get<AccessToken>(this.kvKey(key), "json");
+        if (isValid(stored)) {
+          memoryTokens.set(key, stored);
+          return stored;
+        }
+      } catch (error) {
+        console.warn(`Token read failed for ${key}:`, error);
+      }
+    }
+
+    const token = await fetcher();
+    memoryTokens.set(key, token);
+
+    if (this.kv) {
+      const ttl = Math.floor((token.expiresAt - Date.now()) / 1000);
+      if (ttl >= KV_MIN_TTL) {
+        try {
+          await this.kv.put(this.kvKey(key), JSON.stringify(token), { expirationTtl: ttl });
+        } catch (error) {
+          console.warn(`Token write failed for ${key}:`, error);
+        }
+      }
+    }
+
+    return token;
+  }
+
+  private kvKey(key: string): string {
+    return `token:${key}`;
+  }
+}
@@ -3,6 +3,12 @@
  */
 
 import { z } from "zod";
+import { EntityCache, CacheTTLs } from "./cache";
+import { TokenStore } from "./token";
+import { RetryPolicy } from "./resilience";
+import { Crosswalk } from "./mapping";
+import { ICD10SearchIndex } from "./searchindex";
+import { SnapshotStore } from "./snapshot";
 
 // Server metadata
 export const SERVER_NAME = "icd-mcp-server";
@@ -15,15 +21,76 @@ export interface Env {
   ICD10_RELEASE?: string;
   ICD11_RELEASE?: string;
   WHO_API_LANGUAGE?: string;
+  ICD_CACHE?: KVNamespace;
+  ICD_CACHE_TTL?: string;
+  ICD_CACHE_CODEINFO_TTL?: string;
+  ICD_CACHE_BYPASS?: string;
+  WHO_API_CONCURRENCY?: string;
+  WHO_API_TIMEOUT_MS?: string;
+  WHO_API_MAX_RETRIES?: string;
+  WHO_API_BASE_URL?: string;
+  WHO_TOKEN_ENDPOINT?: string;
+  ICD_MAPPINGS?: R2Bucket;
+  ICD_INDEX?: KVNamespace;
+  ICD_OFFLINE?: string;
+  ICD_SNAPSHOTS?: R2Bucket;
+  ICD_TENANTS?: string;
+  ICD_OAUTH_ISSUER?: string;
+  ICD_OAUTH_INTROSPECTION_URL?: string;
+  ICD_OAUTH_CLIENT_ID?: string;
+  ICD_OAUTH_CLIENT_SECRET?: string;
+  ICD_RATE_LIMITER?: DurableObjectNamespace;
+  ICD_RATE_LIMIT?: string;
+  ICD_DAILY_QUOTA?: string;
 }
 
 // MCP Tool result type (index signature required by SDK)
 export interface ToolResult {
   [key: string]: unknown;
   content: Array<{ type: "text"; text: string }>;
+  structuredContent?: Record<string, unknown>;
   isError?: boolean;
 }
 
+// Structured tool output envelope (MCP structuredContent / output: "json").
+// `data` is action-specific:
+//   lookup       { code, found, entity? } | cluster breakdown (see validate)
+//                | with languages: { code, found, translations: ICDTranslation[] }
+//   search       { query, results: ICDSearchResult[] } (ICD-10: from the local index, with matchedTerm)
+//   chapters     { chapters: ICDChapter[] }
+//   children     { code, children: ICDEntitySummary[] }
+//   autocode     { query, verdict: "match" | "ambiguous" | "no_match", minScore, matchedText?,
+//                  match: ICDAutocodeResult | null, candidates: ICDAutocodeResult[] }
+//   code_note    { minScore, codes: [{ code, title, score, evidence }], negated, lowConfidence, unmatched, skipped }
+//   browse       { code, found, entity?, definition?, parent?, children?, truncated? }
+//   ancestors    { code, found, lineage: ICDEntitySummary[] } (chapter first)
+//   validate     { code, status: "valid" | "invalid" | "unverified", entity?, reason?, cluster? }
+//   expand       { code, root, total, offset, concepts: ICDExpansionConcept[], truncated }
+//   map          { code, from, to, sourceTitle?, cardinality, targets }
+//   releases     { releases: ICDReleaseList[] }
+//   foundation   { id, found, entity?: ICDFoundationEntity, linearization?: ICDLinearization | null }
+//   foundation_search { query, results: ICDFoundationSearchResult[] }
+//   diff         ReleaseDiff { root, from, to, added, removed, renamed, recoded, reparented, unchanged, truncated }
+//   postcoordination { code, found, entity?, axes: [{ axis, label, required, allowMultiple, values }] }
+//   batch        { rows: [{ code, version, status, detail }], counts }
+//   api          { path, response }
+//   errors       { error: { kind, message } }
+//   other        { text }
+export const ICDOutputShape = {
+  action: z.string().describe("Action that produced this result"),
+  version: z.string().optional().describe("ICD version the result refers to"),
+  data: z.record(z.unknown()).describe("Action-specific payload"),
+};
+
+// Compact entity form used in lists
+export interface ICDEntitySummary {
+  code: string;
+  title: string;
+  uri?: string;
+  classKind?: string;
+  hasChildren: boolean;
+}
+
 // ICD Entity from API
 export interface ICDEntity {
   code: string;
@@ -38,6 +105,70 @@ export interface ICDEntity {
   uri?: string;
   classKind?: string;
   browserUrl?: string;
+  // Language of the title as served (WHO falls back to English for missing translations)
+  language?: string;
+  postcoordination?: ICDPostcoordinationAxis[];
+}
+
+// ICD-11 Foundation entity (no code; identified by entity ID)
+export interface ICDFoundationEntity extends ICDEntity {
+  id: string;
+  fullySpecifiedName?: string;
+  synonyms?: string[];
+  narrowerTerms?: string[];
+}
+
+// Foundation search hit; matchedTerm is set when a synonym or narrower term matched
+export interface ICDFoundationSearchResult {
+  id: string;
+  uri: string;
+  title: string;
+  score?: number;
+  matchedTerm?: string;
+  matchedProperty?: string;
+}
+
+// MMS category a Foundation entity is coded with
+export interface ICDLinearization {
+  foundationUri: string;
+  // "exact": the entity is itself an MMS category; "ancestor": it is folded into this one
+  match: "exact" | "ancestor";
+  entity: ICDEntity;
+}
+
+// ICD-11 postcoordination axis allowed for a stem code
+export interface ICDPostcoordinationAxis {
+  axis: string;
+  label: string;
+  required: boolean;
+  allowMultiple: string;
+  scaleEntities: string[];
+}
+
+// Code validation verdict ("unverified" = WHO API could not answer)
+export interface ICDValidation {
+  status: "valid" | "invalid" | "unverified";
+  entity?: ICDEntity;
+  reason?: string;
+}
+
+// One language's rendering of a code (multilingual lookup)
+export interface ICDTranslation {
+  language: string;
+  status: "found" | "not_found" | "fallback" | "error";
+  title?: string;
+  definition?: string;
+  reason?: string;
+}
+
+// Releases the WHO API offers for one classification
+export interface ICDReleaseList {
+  version: string;
+  // Newest first
+  releases: string[];
+  latest?: string;
+  // Release this server targets
+  current: string;
 }
 
 // ICD Search Result
@@ -47,6 +178,8 @@ export interface ICDSearchResult {
   score?: number;
   uri: string;
   chapter?: string;
+  // Inclusion term the query matched (local ICD-10 index)
+  matchedTerm?: string;
 }
 
 // ICD Chapter
@@ -56,12 +189,55 @@ export interface ICDChapter {
   uri: string;
 }
 
+// Concept in a subtree expansion
+export interface ICDExpansionConcept {
+  code: string;
+  title: string;
+  uri?: string;
+  classKind?: string;
+  // Primary parent URI as published in the release
+  parent?: string;
+  // Depth below the expansion root (root = 0)
+  depth: number;
+  // Chapters, blocks and other non-codeable grouping nodes
+  grouping: boolean;
+}
+
+// Options for expanding a subtree into a flat concept list
+export interface ICDExpansionOptions {
+  filter?: string;
+  offset?: number;
+  count?: number;
+  includeGroupings?: boolean;
+  maxNodes?: number;
+}
+
+// One page of a subtree expansion
+export interface ICDExpansion {
+  root: ICDEntity;
+  // Concepts matching the filter (before paging)
+  total: number;
+  offset: number;
+  concepts: ICDExpansionConcept[];
+  // True when the node cap stopped the traversal early
+  truncated: boolean;
+}
+
 // ICD Autocode Result
 export interface ICDAutocodeResult {
   code: string;
   title: string;
   score?: number;
   uri: string;
+  // Index term (title, synonym, inclusion...) the text matched on
+  matchedTerm?: string;
+  matchedProperty?: string;
+}
+
+// Ranked autocode candidates; matchedText is the phrase of the input WHO matched
+export interface ICDAutocodeCandidates {
+  matchedText?: string;
+  candidates: ICDAutocodeResult[];
 }
 
 // WHO Client Config
@@ -71,21 +247,50 @@ export interface WHOClientConfig {
   icd10Release?: string;
   icd11Release?: string;
   language?: string;
+  cache?: EntityCache;
+  cacheTtl?: Partial<CacheTTLs>;
+  cacheBypass?: boolean;
+  tokenStore?: TokenStore;
+  concurrency?: number;
+  retry?: Partial<RetryPolicy>;
+  // Serve requests from an exported snapshot instead of the WHO API
+  snapshots?: SnapshotStore;
+  // Transport: WHO token endpoint, API base URL and fetch (defaults: WHO production, global fetch)
+  tokenEndpoint?: string;
+  apiBaseUrl?: string;
+  fetch?: typeof fetch;
+}
+
+// Optional services available to action handlers
+export interface HandlerServices {
+  crosswalk?: Crosswalk;
+  icd10Index?: ICD10SearchIndex;
 }
 
 // ICD action schema - single tool with action dispatch
 export const ICDParams = z.object({
   action: z.enum([
-    "lookup", "search", "autocode", "browse", "chapters", "children",
-    "ancestors", "validate", "coding_rules", "overview", "api", "help",
+    "lookup", "search", "autocode", "code_note", "browse", "chapters", "children",
+    "ancestors", "validate", "expand", "map", "postcoordination", "releases", "diff",
+    "foundation", "foundation_search", "coding_rules", "overview", "api", "help",
   ]),
-  code: z.string().optional().describe("ICD code (e.g., A00, J18.9, BA00)"),
-  query: z.string().optional().describe("Search terms or clinical description"),
-  version: z.enum(["10", "11"]).optional().describe("ICD version: 10 or 11 (default: 11)"),
+  code: z.string().optional().describe("ICD code (e.g., A00, J18.9, BA00). For expand also a chapter (01), ICD-10 block (J09-J18) or WHO entity URI; for foundation a Foundation entity ID or URI"),
+  query: z.string().optional().describe("Search terms, clinical description, or clinical note (code_note)"),
+  codes: z.array(z.string()).optional().describe("List of codes for batch lookup, validate or ancestors"),
+  version: z.enum(["10", "11", "mixed"]).optional().describe("ICD version: 10 or 11 (default: 11; for map, the source version, detected from the code if omitted). \"mixed\" detects the version per code"),
   chapter: z.string().optional().describe("Chapter code to filter by"),
-  max_results: z.number().optional().describe("Maximum results (default 10)"),
+  max_results: z.number().optional().describe("Maximum results (default 10; candidates for autocode, default 5; page size for expand, default 50)"),
+  min_score: z.number().min(0).max(1).optional().describe("For autocode and code_note: minimum score (0-1) to commit to a code; below it the result is \"ambiguous\" (default 0.75)"),
   path: z.string().optional().describe("API path for raw requests"),
+  release: z.string().optional().describe("Release for this call (ICD-10: 2019, 2016…; ICD-11: 2024-01, 2023-01…; default: server release). A YYYY release implies ICD-10 unless version is set. See the releases action"),
+  compare_release: z.string().optional().describe("For diff: release to compare against (the other side is release, or the server default)"),
+  language: z.string().optional().describe("Language for titles and definitions on this call (e.g. fr, es, ar, zh; default: server language)"),
+  languages: z.array(z.string()).optional().describe("For lookup: show the code side-by-side in several languages (e.g. [\"en\", \"fr\", \"es\", \"ar\"])"),
+  filter: z.string().optional().describe("Text filter for expand (matches code or title)"),
+  offset: z.number().optional().describe("Paging offset for expand (default 0)"),
+  include_groupings: z.boolean().optional().describe("For expand: include non-codeable chapters and blocks (default false)"),
   topic: z.string().optional().describe("Coding rules topic (e.g., extension_codes, clustering, sequencing, dagger_asterisk)"),
+  output: z.enum(["markdown", "json"]).optional().describe("Response format: markdown (default) or json (stable structured envelope)"),
 });
 
 export type ICDParamsType = z.infer<typeof ICDParams>;
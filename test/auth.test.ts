@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import { Authenticator, TenantConfig, parseTenants, sha256Hex } from "../src/auth";
+import { UnauthorizedError, UpstreamUnavailableError } from "../src/errors";
+
+const INTROSPECTION_URL = "https://auth.example.test/introspect";
+
+let tenants: Record<string, TenantConfig>;
+
+beforeAll(async () => {
+  tenants = {
+    clinic: {
+      keys: [await sha256Hex("clinic-key")],
+      whoClientId: "clinic-who-id",
+      whoClientSecret: "clinic-who-secret",
+      icd11Release: "2023-01",
+      language: "fr",
+    },
+    billing: { keys: [await sha256Hex("billing-key")], oauthClients: ["billing-app"] },
+  };
+});
+
+function request(headers: Record<string, string> = {}): Request {
+  return new Request("https://icd.example.test/mcp", { method: "POST", headers });
+}
+
+/**
+ * Introspection endpoint answering for "token-<n>" access tokens; counts calls
+ */
+function introspection(status = 200) {
+  const calls: string[] = [];
+  const fetcher: typeof fetch = async (_input, init) => {
+    const token = new URLSearchParams(String(init?.body)).get("token") || "";
+    calls.push(token);
+    if (status !== 200) return new Response("unavailable", { status });
+    const active = token.startsWith("token-");
+    return Response.json(active ? { active, client_id: token === "token-1" ? "billing-app" : "stranger" } : { active });
+  };
+  return { calls, fetcher };
+}
+
+describe("API keys", () => {
+  it("maps a key to its tenant, with the tenant's WHO credentials and defaults", async () => {
+    const tenant = await new Authenticator(tenants).authenticate(request({ Authorization: "Bearer clinic-key" }));
+    expect(tenant).toEqual({
+      id: "clinic",
+      whoClientId: "clinic-who-id",
+      whoClientSecret: "clinic-who-secret",
+      icd11Release: "2023-01",
+      language: "fr",
+    });
+  });
+
+  it("accepts the X-API-Key header", async () => {
+    const tenant = await new Authenticator(tenants).authenticate(request({ "X-API-Key": "billing-key" }));
+    expect(tenant).toEqual({ id: "billing" });
+  });
+
+  it("rejects missing and unknown credentials", async () => {
+    const auth = new Authenticator(tenants);
+    await expect(auth.authenticate(request())).rejects.toThrow(/Missing credentials/);
+    await expect(auth.authenticate(request({ Authorization: "Basic Y2xpbmljLWtleQ==" }))).rejects.toBeInstanceOf(UnauthorizedError);
+    await expect(auth.authenticate(request({ Authorization: "Bearer wrong-key" }))).rejects.toThrow(/Invalid API key/);
+  });
+});
+
+describe("OAuth access tokens", () => {
+  it("maps an active token to the tenant of its client, and remembers it", async () => {
+    const { calls, fetcher } = introspection();
+    const auth = new Authenticator(tenants, { url: INTROSPECTION_URL, clientId: "icd", clientSecret: "s" }, fetcher);
+
+    expect((await auth.authenticate(request({ Authorization: "Bearer token-1" }))).id).toBe("billing");
+    expect((await auth.authenticate(request({ Authorization: "Bearer token-1" }))).id).toBe("billing");
+    expect(calls).toEqual(["token-1"]);
+  });
+
+  it("rejects inactive tokens and tokens of unknown clients", async () => {
+    const { calls, fetcher } = introspection();
+    const auth = new Authenticator(tenants, { url: INTROSPECTION_URL, clientId: "icd", clientSecret: "s" }, fetcher);
+
+    await expect(auth.authenticate(request({ Authorization: "Bearer expired" }))).rejects.toBeInstanceOf(UnauthorizedError);
+    await expect(auth.authenticate(request({ Authorization: "Bearer token-2" }))).rejects.toBeInstanceOf(UnauthorizedError);
+    // API keys never reach the introspection endpoint
+    await auth.authenticate(request({ Authorization: "Bearer clinic-key" }));
+    expect(calls).toEqual(["expired", "token-2"]);
+  });
+
+  it("reports an unavailable introspection endpoint as upstream failure", async () => {
+    const { fetcher } = introspection(503);
+    const auth = new Authenticator(tenants, { url: INTROSPECTION_URL, clientId: "icd", clientSecret: "s" }, fetcher);
+    await expect(auth.authenticate(request({ Authorization: "Bearer token-9" }))).rejects.toBeInstanceOf(UpstreamUnavailableError);
+  });
+});
+
+describe("ICD_TENANTS", () => {
+  it("rejects configurations that cannot work", () => {
+    expect(() => parseTenants("{")).toThrow(/not valid JSON/);
+    expect(() => parseTenants("[]")).toThrow(/keyed by tenant ID/);
+    expect(() => parseTenants('{"a": {"whoClientId": "x"}}')).toThrow(/both whoClientId and whoClientSecret/);
+    expect(() => parseTenants('{"a": {"keys": ["plain-text-key"]}}')).toThrow(/SHA-256/);
+    expect(parseTenants(JSON.stringify(tenants))).toEqual(tenants);
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { WHOICDClient } from "../src/client";
+import { AuthFailedError, UpstreamUnavailableError } from "../src/errors";
+import { CircuitBreaker } from "../src/resilience";
+import { WHOClientConfig } from "../src/types";
+import { createFakeWhoApi, FakeWhoApi, FAKE_TOKEN_ENDPOINT, FAKE_CLIENT_ID, FAKE_CLIENT_SECRET } from "./fake-who-api";
+
+let api: FakeWhoApi;
+let host = 0;
+
+function createClient(overrides: Partial<WHOClientConfig> = {}): WHOICDClient {
+  return new WHOICDClient({
+    clientId: FAKE_CLIENT_ID,
+    clientSecret: FAKE_CLIENT_SECRET,
+    tokenEndpoint: FAKE_TOKEN_ENDPOINT,
+    apiBaseUrl: `https://client-${++host}.test`,
+    fetch: api.fetch,
+    retry: { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 10 },
+    ...overrides,
+  });
+}
+
+beforeEach(() => {
+  api = createFakeWhoApi();
+});
+
+describe("transport", () => {
+  it("sends every request to the injected endpoints", async () => {
+    const urls: string[] = [];
+    const client = createClient({
+      apiBaseUrl: "https://icd.example.test/",
+      fetch: (input, init) => {
+        urls.push(String(input));
+        return api.fetch(input, init);
+      },
+    });
+
+    expect((await client.getICD10Code("A00"))?.title).toBe("Cholera");
+    expect(urls).toEqual([FAKE_TOKEN_ENDPOINT, "https://icd.example.test/icd/release/10/2019/A00"]);
+  });
+
+  it("reuses the access token across requests", async () => {
+    const client = createClient();
+    await client.getICD11Code("1A00");
+    await client.getICD11Chapters();
+    expect(api.tokenRequests).toBe(1);
+  });
+
+  it("re-authenticates once when the token is rejected", async () => {
+    const client = createClient();
+    await client.getICD11Chapters();
+    api.revokeTokens();
+
+    expect((await client.getICD11Code("CA40"))?.title).toBe("Pneumonia");
+    expect(api.tokenRequests).toBe(2);
+  });
+
+  it("reports rejected credentials", async () => {
+    const client = createClient({ clientSecret: "wrong" });
+    await expect(client.getICD11Chapters()).rejects.toBeInstanceOf(AuthFailedError);
+  });
+
+  it("retries transient failures", async () => {
+    const client = createClient();
+    api.failNext(503, 2);
+    expect((await client.getICD10Code("J18.9"))?.title).toBe("Pneumonia, unspecified");
+    expect(api.requests).toHaveLength(3);
+  });
+
+  it("gives up after the retry budget", async () => {
+    const client = createClient();
+    api.failNext(503, 3);
+    await expect(client.getICD10Code("J18.9")).rejects.toBeInstanceOf(UpstreamUnavailableError);
+  });
+
+  it("keeps the transport on derived clients", async () => {
+    const client = createClient().withOptions({ language: "fr" });
+    expect((await client.getICD11Code("1A00"))?.title).toBe("Choléra");
+  });
+});
+
+describe("foundation search", () => {
+  it("skips hits without a Foundation entity ID", async () => {
+    const client = createClient({
+      fetch: async (input, init) => {
+        const response = await api.fetch(input, init);
+        if (!response.ok || !String(input).includes("/icd/entity/search")) return response;
+        const data = (await response.json()) as { destinationEntities: Array<Record<string, unknown>> };
+        data.destinationEntities.unshift({ title: "No ID" }, { id: "http://id.who.int/icd/entity/other", title: "Bad ID" });
+        return Response.json(data);
+      },
+    });
+
+    const results = await client.searchFoundation("walking pneumonia");
+    expect(results.map((result) => result.id)).toEqual(["1110110519"]);
+  });
+});
+
+describe("release listings", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("are shared per upstream and refreshed after an hour", async () => {
+    const listings = () => api.requests.filter((path) => path === "/icd/release/11/mms").length;
+    let now = Date.now();
+    vi.spyOn(Date, "now").mockImplementation(() => now);
+
+    const client = createClient();
+    await client.listReleases("11");
+    const fetched = listings();
+    await client.withOptions({ language: "fr" }).listReleases("11");
+    expect(listings()).toBe(fetched);
+
+    // Another upstream has its own listing
+    await createClient().listReleases("11");
+    expect(listings()).toBe(fetched + 1);
+
+    now += 61 * 60 * 1000;
+    await client.listReleases("11");
+    expect(listings()).toBe(fetched + 2);
+  });
+});
+
+describe("circuit breaker", () => {
+  let now = 0;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    vi.spyOn(Date, "now").mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function openBreaker(): CircuitBreaker {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 1000 });
+    breaker.recordFailure();
+    breaker.recordFailure();
+    return breaker;
+  }
+
+  it("fails fast while open, then admits a single probe", () => {
+    const breaker = openBreaker();
+    expect(breaker.canRequest()).toBe(false);
+
+    now += 1000;
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.canRequest()).toBe(false);
+    expect(breaker.retryIn()).toBe(1000);
+  });
+
+  it("closes on a successful probe and reopens on a failed one", () => {
+    const closing = openBreaker();
+    now += 1000;
+    closing.canRequest();
+    closing.recordSuccess();
+    expect([closing.canRequest(), closing.canRequest()]).toEqual([true, true]);
+
+    const reopening = openBreaker();
+    now += 1000;
+    reopening.canRequest();
+    reopening.recordFailure();
+    expect(reopening.canRequest()).toBe(false);
+    expect(reopening.retryIn()).toBe(1000);
+  });
+
+  it("replaces a probe that never reports back", () => {
+    const breaker = openBreaker();
+    now += 1000;
+    breaker.canRequest();
+
+    now += 999;
+    expect(breaker.canRequest()).toBe(false);
+    now += 1;
+    expect(breaker.canRequest()).toBe(true);
+  });
+});
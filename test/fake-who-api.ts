@@ -0,0 +1,204 @@
+/**
+ * Fake WHO ICD-API: a fetch function serving the fixtures for the token,
+ * release, entity, codeinfo, search, autocode and Foundation endpoints, so the
+ * client and every action can be exercised without WHO credentials.
+ */
+
+import { ENTITIES, RELEASE_LISTS, TRANSLATIONS, LINEARIZATIONS, endpointOf } from "./fixtures";
+
+export const FAKE_TOKEN_ENDPOINT = "https://auth.who.test/connect/token";
+export const FAKE_CLIENT_ID = "test-client";
+export const FAKE_CLIENT_SECRET = "test-secret";
+
+type Json = Record<string, unknown>;
+
+export interface FakeWhoApi {
+  fetch: typeof fetch;
+  // API paths requested (with query string), in order
+  requests: string[];
+  // Token requests received
+  tokenRequests: number;
+  // Answer the next `times` API requests with this status
+  failNext(status: number, times?: number, headers?: Record<string, string>): void;
+  // Reject every token issued so far (forces re-authentication)
+  revokeTokens(): void;
+}
+
+function json(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+}
+
+function text(value: unknown): string {
+  if (typeof value === "object" && value !== null) return String((value as Json)["@value"] ?? "");
+  return typeof value === "string" ? value : "";
+}
+
+function labels(value: unknown): string[] {
+  return Array.isArray(value) ? value.map((item) => text((item as Json).label)) : [];
+}
+
+/**
+ * Match every query word against a label; 1 for an exact title, less for partial and index-term hits
+ */
+function score(query: string, title: string, others: string[]): { score: number; label: string; property: string } | null {
+  const words = query.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  const matches = (label: string) => words.length > 0 && words.every((word) => label.toLowerCase().includes(word));
+
+  if (title.toLowerCase() === query.trim().toLowerCase()) return { score: 1, label: title, property: "Title" };
+  if (matches(title)) return { score: 0.8, label: title, property: "Title" };
+  const other = others.find((label) => label.toLowerCase() !== title.toLowerCase() && matches(label));
+  return other ? { score: 0.6, label: other, property: "IndexTerm" } : null;
+}
+
+/**
+ * Chapter code of an entity (walks up the parents)
+ */
+function chapterOf(entity: Json): string | undefined {
+  let current: Json | undefined = entity;
+  for (let depth = 0; current && depth < 10; depth++) {
+    if (current.classKind === "chapter") return String(current.code);
+    const parent: string | undefined = Array.isArray(current.parent) ? String(current.parent[0]) : undefined;
+    current = parent ? ENTITIES[endpointOf(parent)] : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Coded MMS categories of a release, ranked against a query
+ */
+function rank(release: string, query: string, chapterFilter?: string) {
+  const prefix = `/icd/release/11/${release}/mms/`;
+  return Object.entries(ENTITIES)
+    .filter(([path, entity]) => path.startsWith(prefix) && entity.classKind === "category" && entity.code)
+    .map(([, entity]) => ({ entity, match: score(query, text(entity.title), labels(entity.indexTerm)) }))
+    .filter((hit): hit is { entity: Json; match: NonNullable<ReturnType<typeof score>> } => hit.match !== null)
+    .filter(({ entity }) => !chapterFilter || chapterFilter.split(";").includes(chapterOf(entity) || ""))
+    .sort((a, b) => b.match.score - a.match.score || String(a.entity.code).localeCompare(String(b.entity.code)));
+}
+
+/**
+ * Entity in the requested language: translated title when the fixture has one,
+ * otherwise the English title (tagged "en", as WHO does)
+ */
+function localize(path: string, entity: Json, language: string): Json {
+  const title = TRANSLATIONS[path]?.[language];
+  return title ? { ...entity, title: { "@language": language, "@value": title } } : entity;
+}
+
+export function createFakeWhoApi(): FakeWhoApi {
+  const issued = new Set<string>();
+  const failures: Array<{ status: number; headers: Record<string, string> }> = [];
+
+  const api: FakeWhoApi = {
+    requests: [],
+    tokenRequests: 0,
+    failNext(status, times = 1, headers = {}) {
+      for (let i = 0; i < times; i++) failures.push({ status, headers });
+    },
+    revokeTokens() {
+      issued.clear();
+    },
+    fetch: async (input, init) => {
+      const url = new URL(typeof input === "string" ? input : input instanceof URL ? input.href : input.url);
+      const headers = new Headers(init?.headers);
+
+      if (url.href === FAKE_TOKEN_ENDPOINT) {
+        api.tokenRequests++;
+        const form = new URLSearchParams(String(init?.body ?? ""));
+        if (form.get("client_id") !== FAKE_CLIENT_ID || form.get("client_secret") !== FAKE_CLIENT_SECRET) {
+          return json({ error: "invalid_client" }, 400);
+        }
+        const token = `token-${api.tokenRequests}`;
+        issued.add(token);
+        return json({ access_token: token, expires_in: 3600, token_type: "Bearer" });
+      }
+
+      api.requests.push(url.pathname + url.search);
+
+      const token = headers.get("Authorization")?.replace(/^Bearer /, "");
+      if (!token || !issued.has(token)) return json({ error: "unauthorized" }, 401);
+
+      const failure = failures.shift();
+      if (failure) return json({ error: "injected failure" }, failure.status, failure.headers);
+
+      return route(url, headers.get("Accept-Language") || "en");
+    },
+  };
+
+  return api;
+}
+
+function route(url: URL, language: string): Response {
+  const path = url.pathname;
+  const q = url.searchParams.get("q") || "";
+
+  const list = RELEASE_LISTS[path];
+  if (list) return json(list);
+
+  let match = path.match(/^\/icd\/release\/11\/([^/]+)\/mms\/codeinfo\/(.+)$/);
+  if (match) {
+    const prefix = `/icd/release/11/${match[1]}/mms/`;
+    const code = decodeURIComponent(match[2]).toUpperCase();
+    const found = Object.entries(ENTITIES).find(([p, entity]) => p.startsWith(prefix) && entity.code === code);
+    return found
+      ? json({ code, stemId: found[1]["@id"] })
+      : json({ error: `code ${code} not found` }, 404);
+  }
+
+  match = path.match(/^\/icd\/release\/11\/([^/]+)\/mms\/search$/);
+  if (match) {
+    return json({
+      error: false,
+      destinationEntities: rank(match[1], q, url.searchParams.get("chapterFilter") || undefined).map(({ entity, match }) => ({
+        id: entity["@id"],
+        theCode: entity.code,
+        title: text(entity.title),
+        score: match.score,
+        chapter: chapterOf(entity),
+      })),
+    });
+  }
+
+  match = path.match(/^\/icd\/release\/11\/([^/]+)\/mms\/autocode$/);
+  if (match) {
+    return json({
+      searchText: q,
+      matchingText: q,
+      destinationEntities: rank(match[1], q).map(({ entity, match }) => ({
+        id: entity["@id"],
+        theCode: entity.code,
+        title: text(entity.title),
+        score: match.score,
+        matchingPVs: [{ propertyId: match.property, label: match.label, score: match.score }],
+      })),
+    });
+  }
+
+  match = path.match(/^\/icd\/release\/11\/([^/]+)\/mms\/lookup$/);
+  if (match) {
+    const foundationUri = url.searchParams.get("foundationUri") || "";
+    const target = LINEARIZATIONS[foundationUri];
+    const entity = target ? ENTITIES[endpointOf(target).replace("/2024-01/", `/${match[1]}/`)] : undefined;
+    return entity ? json(entity) : json({ error: "not in the linearization" }, 404);
+  }
+
+  if (path === "/icd/entity/search") {
+    const results = Object.entries(ENTITIES)
+      .filter(([p]) => p.startsWith("/icd/entity/"))
+      .map(([, entity]) => ({ entity, match: score(q, text(entity.title), labels(entity.synonym)) }))
+      .filter(({ match }) => match !== null)
+      .map(({ entity, match }) => ({
+        id: entity["@id"],
+        title: text(entity.title),
+        score: match!.score,
+        matchingPVs: [{ propertyId: match!.property === "Title" ? "Title" : "Synonym", label: match!.label }],
+      }));
+    return json({ error: false, destinationEntities: results });
+  }
+
+  const entity = ENTITIES[path];
+  return entity ? json(localize(path, entity, language)) : json({ error: "not found" }, 404);
+}
@@ -0,0 +1,177 @@
+/**
+ * WHO ICD-API fixtures: a small slice of ICD-10 2019/2016 and the ICD-11 MMS
+ * 2024-01/2023-01, in the API's own JSON, keyed by endpoint path.
+ */
+
+export const ICD10_2019 = "http://id.who.int/icd/release/10/2019";
+export const MMS_2024 = "http://id.who.int/icd/release/11/2024-01/mms";
+export const FOUNDATION = "http://id.who.int/icd/entity";
+
+type Json = Record<string, unknown>;
+
+const label = (value: string, language = "en") => ({ "@language": language, "@value": value });
+const terms = (...values: string[]) => values.map((value) => ({ label: label(value) }));
+
+/**
+ * Endpoint path of a WHO URI (http://id.who.int/icd/... → /icd/...)
+ */
+export function endpointOf(uri: string): string {
+  return uri.replace(/^https?:\/\/id\.who\.int/, "");
+}
+
+function entity(uri: string, fields: Json): [string, Json] {
+  const { title, ...rest } = fields;
+  return [endpointOf(uri), { "@id": uri, title: label(String(title)), ...rest }];
+}
+
+// ==================== ICD-10 ====================
+
+const icd10 = (release: string): Array<[string, Json]> => {
+  const base = `http://id.who.int/icd/release/10/${release}`;
+  return [
+    [endpointOf(base), { "@id": base, title: label("International Classification of Diseases 10th Revision"), child: [`${base}/I`, `${base}/X`] }],
+    entity(`${base}/I`, { code: "I", title: "Certain infectious and parasitic diseases", classKind: "chapter", parent: [base], child: [`${base}/A00-A09`] }),
+    entity(`${base}/A00-A09`, { code: "A00-A09", title: "Intestinal infectious diseases", classKind: "block", parent: [`${base}/I`], child: [`${base}/A00`] }),
+    entity(`${base}/A00`, { code: "A00", title: "Cholera", classKind: "category", parent: [`${base}/A00-A09`], child: [`${base}/A00.0`, `${base}/A00.1`, `${base}/A00.9`] }),
+    entity(`${base}/A00.0`, { code: "A00.0", title: "Cholera due to Vibrio cholerae 01, biovar cholerae", classKind: "category", parent: [`${base}/A00`], inclusion: terms("Classical cholera") }),
+    entity(`${base}/A00.1`, { code: "A00.1", title: release === "2016" ? "Cholera due to Vibrio cholerae 01, biovar El Tor" : "Cholera due to Vibrio cholerae 01, biovar eltor", classKind: "category", parent: [`${base}/A00`], inclusion: terms("Cholera eltor") }),
+    entity(`${base}/A00.9`, { code: "A00.9", title: "Cholera, unspecified", classKind: "category", parent: [`${base}/A00`] }),
+    entity(`${base}/X`, { code: "X", title: "Diseases of the respiratory system", classKind: "chapter", parent: [base], child: [`${base}/J09-J18`] }),
+    entity(`${base}/J09-J18`, { code: "J09-J18", title: "Influenza and pneumonia", classKind: "block", parent: [`${base}/X`], child: [`${base}/J18`] }),
+    entity(`${base}/J18`, { code: "J18", title: "Pneumonia, organism unspecified", classKind: "category", parent: [`${base}/J09-J18`], child: [`${base}/J18.0`, `${base}/J18.9`], exclusion: terms("Lung abscess with pneumonia (J85.1)") }),
+    entity(`${base}/J18.0`, { code: "J18.0", title: "Bronchopneumonia, unspecified", classKind: "category", parent: [`${base}/J18`] }),
+    entity(`${base}/J18.9`, { code: "J18.9", title: "Pneumonia, unspecified", classKind: "category", parent: [`${base}/J18`] }),
+  ];
+};
+
+// ==================== ICD-11 MMS ====================
+
+// Linearization entity IDs (shared by the Foundation entity of the same concept)
+const ID = {
+  chapter01: "1435254666",
+  gastroenteritis: "588616678",
+  cholera: "257068234",
+  chapter12: "197934298",
+  pneumonia: "142052508",
+  bacterialPneumonia: "1323682030",
+  streptococcus: "1911421406",
+};
+
+const mms = (release: string): Array<[string, Json]> => {
+  const base = `http://id.who.int/icd/release/11/${release}/mms`;
+  const uri = (id: string) => `${base}/${id}`;
+  const entities: Array<[string, Json]> = [
+    [endpointOf(base), { "@id": base, title: label("ICD-11 for Mortality and Morbidity Statistics"), releaseId: release, child: [uri(ID.chapter01), uri(ID.chapter12)] }],
+    entity(uri(ID.chapter01), { code: "01", title: "Certain infectious or parasitic diseases", classKind: "chapter", parent: [base], child: [uri(ID.gastroenteritis)] }),
+    entity(uri(ID.gastroenteritis), { title: "Gastroenteritis or colitis of infectious origin", classKind: "block", parent: [uri(ID.chapter01)], child: [uri(ID.cholera)] }),
+    entity(uri(ID.cholera), {
+      code: "1A00",
+      title: "Cholera",
+      classKind: "category",
+      source: `${FOUNDATION}/${ID.cholera}`,
+      parent: [uri(ID.gastroenteritis)],
+      definition: label("Cholera is an acute diarrhoeal infection caused by Vibrio cholerae."),
+      indexTerm: terms("Cholera", "Asiatic cholera"),
+      exclusion: terms("Cholera vaccination"),
+      codingNote: label("Use additional code, if desired, to identify the serogroup."),
+    }),
+    entity(uri(ID.chapter12), { code: "12", title: "Diseases of the respiratory system", classKind: "chapter", parent: [base], child: [uri(ID.pneumonia)] }),
+    entity(uri(ID.pneumonia), {
+      code: "CA40",
+      title: "Pneumonia",
+      classKind: "category",
+      source: `${FOUNDATION}/${ID.pneumonia}`,
+      parent: [uri(ID.chapter12)],
+      child: release === "2023-01" ? [uri(ID.bacterialPneumonia)] : [uri(ID.bacterialPneumonia), uri(`${ID.pneumonia}/unspecified`)],
+      definition: label("An infection of the lung parenchyma."),
+      indexTerm: terms("Pneumonia", "Lung infection"),
+      postcoordinationScale: [{
+        axisName: "http://id.who.int/icd/schema/infectiousAgent",
+        requiredPostcoordination: "false",
+        allowMultipleValues: "AllowAlways",
+        scaleEntity: [uri(ID.streptococcus)],
+      }],
+    }),
+    entity(uri(ID.bacterialPneumonia), {
+      code: "CA40.0",
+      title: release === "2023-01" ? "Bacterial pneumonia, not elsewhere classified" : "Bacterial pneumonia",
+      classKind: "category",
+      source: `${FOUNDATION}/${ID.bacterialPneumonia}`,
+      parent: [uri(ID.pneumonia)],
+    }),
+    entity(uri(ID.streptococcus), { code: "XN2SQ", title: "Streptococcus pneumoniae", classKind: "category" }),
+  ];
+
+  if (release !== "2023-01") {
+    entities.push(entity(uri(`${ID.pneumonia}/unspecified`), {
+      code: "CA40.Z",
+      title: "Pneumonia, organism unspecified",
+      classKind: "category",
+      parent: [uri(ID.pneumonia)],
+    }));
+  }
+  return entities;
+};
+
+// ==================== Foundation ====================
+
+const foundation: Array<[string, Json]> = [
+  entity(`${FOUNDATION}/${ID.cholera}`, {
+    title: "Cholera",
+    fullySpecifiedName: label("Cholera"),
+    definition: label("Cholera is an acute diarrhoeal infection caused by Vibrio cholerae."),
+    synonym: terms("Asiatic cholera"),
+    narrowerTerm: terms("Classical cholera"),
+  }),
+  entity(`${FOUNDATION}/1110110519`, {
+    title: "Mycoplasma pneumonia",
+    synonym: terms("Walking pneumonia"),
+    parent: [`${FOUNDATION}/${ID.bacterialPneumonia}`],
+  }),
+];
+
+// Foundation entity → MMS category it is coded with
+export const LINEARIZATIONS: Record<string, string> = {
+  [`${FOUNDATION}/${ID.cholera}`]: `${MMS_2024}/${ID.cholera}`,
+  [`${FOUNDATION}/1110110519`]: `${MMS_2024}/${ID.bacterialPneumonia}`,
+};
+
+// ==================== Releases, translations ====================
+
+export const RELEASE_LISTS: Record<string, Json> = {
+  "/icd/release/10": {
+    release: ["http://id.who.int/icd/release/10/2016", ICD10_2019],
+    latestRelease: ICD10_2019,
+  },
+  "/icd/release/11/mms": {
+    release: ["http://id.who.int/icd/release/11/2023-01/mms", MMS_2024],
+    latestRelease: MMS_2024,
+  },
+};
+
+// Endpoint → language → title; other languages fall back to English as WHO does
+export const TRANSLATIONS: Record<string, Record<string, string>> = {
+  [endpointOf(`${MMS_2024}/${ID.cholera}`)]: { fr: "Choléra", es: "Cólera" },
+};
+
+export const ENTITIES: Record<string, Json> = Object.fromEntries([
+  ...icd10("2019"),
+  ...icd10("2016"),
+  ...mms("2024-01"),
+  ...mms("2023-01"),
+  ...foundation,
+]);
+
+// ==================== Crosswalk tables ====================
+
+export const MAPPING_TABLES: Record<string, string> = {
+  "10To11MapToOneCategory.txt": [
+    "icd10Code\ticd10Title\ticd11Code\ticd11Title",
+    "A00.0\tCholera due to Vibrio cholerae 01, biovar cholerae\t1A00\tCholera",
+    "J18.9\tPneumonia, unspecified\tCA40.Z\tPneumonia, organism unspecified",
+  ].join("\n"),
+  "11To10MapToOneCategory.txt": [
+    "icd11Code\ticd11Title\ticd10Code\ticd10Title",
+    "1A00\tCholera\tA00.9\tCholera, unspecified",
+  ].join("\n"),
+};
@@ -0,0 +1,417 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { WHOICDClient } from "../src/client";
+import { handleAction } from "../src/handlers";
+import { Crosswalk } from "../src/mapping";
+import { ICD10SearchIndex, buildICD10Index } from "../src/searchindex";
+import {
+  ICDParams,
+  HandlerServices,
+  ICDEntity,
+  ICDEntitySummary,
+  ICDTranslation,
+  ICDSearchResult,
+  ICDChapter,
+  ICDExpansion,
+  ICDAutocodeResult,
+  ICDReleaseList,
+  ICDFoundationEntity,
+  ICDFoundationSearchResult,
+  ICDPostcoordinationAxis,
+  ICDValidation,
+} from "../src/types";
+import { NarrativeCoding } from "../src/narrative";
+import { CrosswalkResult } from "../src/mapping";
+import { ReleaseDiff } from "../src/diff";
+import { createFakeWhoApi, FakeWhoApi, FAKE_TOKEN_ENDPOINT, FAKE_CLIENT_ID, FAKE_CLIENT_SECRET } from "./fake-who-api";
+import { MAPPING_TABLES } from "./fixtures";
+
+let api: FakeWhoApi;
+let client: WHOICDClient;
+let services: HandlerServices;
+
+// Each test gets its own API host, so circuit breaker state never leaks between tests
+let host = 0;
+
+function createClient(fake: FakeWhoApi): WHOICDClient {
+  return new WHOICDClient({
+    clientId: FAKE_CLIENT_ID,
+    clientSecret: FAKE_CLIENT_SECRET,
+    icd10Release: "2019",
+    icd11Release: "2024-01",
+    tokenEndpoint: FAKE_TOKEN_ENDPOINT,
+    apiBaseUrl: `https://who-${++host}.test`,
+    fetch: fake.fetch,
+    retry: { maxRetries: 1, baseDelayMs: 1, maxDelayMs: 10 },
+  });
+}
+
+const mappings = {
+  get: async (name: string) => {
+    const table = MAPPING_TABLES[name];
+    return table === undefined ? null : { text: async () => table };
+  },
+} as unknown as R2Bucket;
+
+// Payloads built by the handlers rather than declared in src/types
+type LookupData = { code: string; found: boolean; entity: ICDEntity };
+type ErrorData = { error: { kind: string; message: string } };
+type PostcoordinationAxisData = Omit<ICDPostcoordinationAxis, "scaleEntities"> & { values: ICDEntitySummary[] };
+
+/**
+ * Run one tool call; returns the text, the structured data (typed as the
+ * action's payload) and the error flag
+ */
+async function call<T extends object = Record<string, unknown>>(args: Record<string, unknown>) {
+  const result = await handleAction(ICDParams.parse(args), client, services);
+  const structured = result.structuredContent as { action: string; version?: string; data: T };
+  return { text: result.content[0].text, data: structured.data, version: structured.version, isError: !!result.isError };
+}
+
+beforeEach(async () => {
+  api = createFakeWhoApi();
+  client = createClient(api);
+
+  // The ICD-10 index is built from the fixtures with the real traversal
+  const index = await buildICD10Index(createClient(createFakeWhoApi()));
+  services = {
+    crosswalk: new Crosswalk(mappings),
+    icd10Index: new ICD10SearchIndex(async (release) => (release === index.release ? index : null)),
+  };
+});
+
+describe("lookup", () => {
+  it("returns ICD-11 entity details", async () => {
+    const { text, data, version } = await call<LookupData>({ action: "lookup", code: "1A00" });
+    expect(version).toBe("11");
+    expect(data.found).toBe(true);
+    expect(data.entity.title).toBe("Cholera");
+    expect(data.entity.definition).toContain("Vibrio cholerae");
+    expect(text).toContain("Cholera");
+  });
+
+  it("returns ICD-10 entity details with inclusions", async () => {
+    const { data } = await call<LookupData>({ action: "lookup", code: "A00.0", version: "10" });
+    expect(data.entity.title).toBe("Cholera due to Vibrio cholerae 01, biovar cholerae");
+    expect(data.entity.inclusions).toEqual(["Classical cholera"]);
+  });
+
+  it("reports unknown codes as not found, not as errors", async () => {
+    const { data, isError } = await call({ action: "lookup", code: "ZZ99" });
+    expect(isError).toBe(false);
+    expect(data.found).toBe(false);
+  });
+
+  it("shows a code side by side in several languages", async () => {
+    const { data } = await call<{ translations: ICDTranslation[] }>({
+      action: "lookup",
+      code: "1A00",
+      languages: ["en", "fr", "de"],
+    });
+    const status = Object.fromEntries(data.translations.map((t) => [t.language, t.status]));
+    expect(status).toEqual({ en: "found", fr: "found", de: "fallback" });
+    expect(data.translations[1].title).toBe("Choléra");
+  });
+
+  it("honors a per-call language and release", async () => {
+    const french = await call<LookupData>({ action: "lookup", code: "1A00", language: "fr" });
+    expect(french.data.entity.title).toBe("Choléra");
+
+    const older = await call<LookupData>({ action: "lookup", code: "A00.1", release: "2016" });
+    expect(older.version).toBe("10");
+    expect(older.data.entity.title).toBe("Cholera due to Vibrio cholerae 01, biovar El Tor");
+
+    const missing = await call<ErrorData>({ action: "lookup", code: "1A00", release: "2019-04" });
+    expect(missing.isError).toBe(true);
+    expect(missing.data.error.kind).toBe("invalid_input");
+  });
+
+  it("looks up a batch of mixed-version codes", async () => {
+    const { data } = await call<{ rows: Array<{ code: string; version: string; status: string }> }>({
+      action: "lookup",
+      codes: ["1A00", "J18.9", "ZZ99"],
+      version: "mixed",
+    });
+    expect(data.rows.map((row) => [row.code, row.version, row.status])).toEqual([
+      ["1A00", "11", "found"],
+      ["J18.9", "10", "found"],
+      ["ZZ99", "11", "not found"],
+    ]);
+  });
+
+  it("renders the structured envelope as JSON on request", async () => {
+    const { text } = await call({ action: "lookup", code: "1A00", output: "json" });
+    const envelope = JSON.parse(text) as { action: string; data: LookupData };
+    expect(envelope.action).toBe("lookup");
+    expect(envelope.data.entity.code).toBe("1A00");
+  });
+});
+
+describe("search", () => {
+  it("searches ICD-11 through the WHO API", async () => {
+    const { data } = await call<{ results: ICDSearchResult[] }>({ action: "search", query: "pneumonia" });
+    expect(data.results.map((r) => r.code)).toContain("CA40");
+  });
+
+  it("filters ICD-11 search by chapter", async () => {
+    const { data } = await call<{ results: ICDSearchResult[] }>({ action: "search", query: "cholera", chapter: "12" });
+    expect(data.results).toEqual([]);
+  });
+
+  it("searches ICD-10 titles and inclusion terms in the local index", async () => {
+    const { data, version } = await call<{ results: ICDSearchResult[] }>({
+      action: "search",
+      query: "classical cholera",
+      version: "10",
+    });
+    expect(version).toBe("10");
+    expect(data.results[0]).toMatchObject({ code: "A00.0", matchedTerm: "Classical cholera" });
+  });
+
+  it("fails clearly when no ICD-10 index is configured", async () => {
+    services = {};
+    const { isError, text } = await call({ action: "search", query: "cholera", version: "10" });
+    expect(isError).toBe(true);
+    expect(text).toContain("ICD_INDEX");
+  });
+});
+
+describe("autocode", () => {
+  it("commits to a confident match", async () => {
+    const { data } = await call<{ verdict: string; match: ICDAutocodeResult }>({ action: "autocode", query: "cholera" });
+    expect(data.verdict).toBe("match");
+    expect(data.match.code).toBe("1A00");
+  });
+
+  it("reports low-scoring candidates as ambiguous", async () => {
+    const { data } = await call<{ verdict: string; candidates: ICDAutocodeResult[] }>({
+      action: "autocode",
+      query: "lung infection",
+    });
+    expect(data.verdict).toBe("ambiguous");
+    expect(data.candidates[0]).toMatchObject({ code: "CA40", matchedTerm: "Lung infection" });
+  });
+
+  it("reports no match", async () => {
+    const { data } = await call({ action: "autocode", query: "sprained wrist" });
+    expect(data.verdict).toBe("no_match");
+  });
+});
+
+describe("code_note", () => {
+  it("codes affirmed findings and sets aside negated ones", async () => {
+    const { data } = await call<NarrativeCoding>({
+      action: "code_note",
+      query: "Patient presents with cholera and pneumonia. No fever.",
+    });
+    expect(data.codes.map((c) => c.code)).toEqual(["1A00", "CA40"]);
+    expect(data.negated.map((p) => p.text)).toEqual(["fever"]);
+  });
+
+  it("finds negation cues after a lead-in", async () => {
+    const { data } = await call<NarrativeCoding>({
+      action: "code_note",
+      query: "Patient denies fever. He has no cough. The patient is not hypertensive. Patient has no history of asthma.",
+    });
+    expect(data.codes).toEqual([]);
+    expect(data.negated.map((p) => [p.text, p.negationCue])).toEqual([
+      ["fever", "denies"],
+      ["cough", "no"],
+      ["hypertensive", "not"],
+      ["asthma", "no history of"],
+    ]);
+  });
+
+  it("keeps two-letter abbreviations and 'a fib' as phrases", async () => {
+    const { data } = await call<NarrativeCoding>({
+      action: "code_note",
+      query: "History of MI, no chest pain, reports dyspnea. Known DM and a fib with RVR.",
+    });
+    expect(data.unmatched.map((p) => p.text)).toEqual(["MI", "dyspnea", "DM", "a fib", "RVR"]);
+    expect(data.negated.map((p) => p.text)).toEqual(["chest pain"]);
+  });
+});
+
+describe("browse", () => {
+  it("shows an entity with its parent and children", async () => {
+    const { data } = await call<{ found: boolean; parent: ICDEntitySummary; children: ICDEntitySummary[] }>({
+      action: "browse",
+      code: "CA40",
+    });
+    expect(data.found).toBe(true);
+    expect(data.parent.code).toBe("12");
+    expect(data.children.map((c) => c.code)).toEqual(["CA40.0", "CA40.Z"]);
+  });
+
+  it("starts at the chapters without a code", async () => {
+    const { isError, text } = await call({ action: "browse" });
+    expect(isError).toBe(false);
+    expect(text).toContain("Diseases of the respiratory system");
+  });
+});
+
+describe("chapters", () => {
+  it("lists ICD-11 and ICD-10 chapters", async () => {
+    const icd11 = await call<{ chapters: ICDChapter[] }>({ action: "chapters" });
+    expect(icd11.data.chapters.map((c) => c.code)).toEqual(["01", "12"]);
+
+    const icd10 = await call<{ chapters: ICDChapter[] }>({ action: "chapters", version: "10" });
+    expect(icd10.data.chapters.map((c) => c.code)).toEqual(["I", "X"]);
+  });
+});
+
+describe("children", () => {
+  it("lists direct children", async () => {
+    const { data } = await call<{ children: ICDEntitySummary[] }>({ action: "children", code: "A00", version: "10" });
+    expect(data.children.map((c) => c.code)).toEqual(["A00.0", "A00.1", "A00.9"]);
+  });
+});
+
+describe("ancestors", () => {
+  it("traces a code up to its chapter", async () => {
+    const { data } = await call<{ lineage: ICDEntitySummary[] }>({ action: "ancestors", code: "CA40.Z" });
+    expect(data.lineage.map((e) => e.code).filter(Boolean)).toEqual(["12", "CA40", "CA40.Z"]);
+  });
+});
+
+describe("validate", () => {
+  it("distinguishes valid, invalid and unverifiable codes", async () => {
+    expect((await call<ICDValidation>({ action: "validate", code: "J18.9", version: "10" })).data.status).toBe("valid");
+    expect((await call<ICDValidation>({ action: "validate", code: "ZZ99" })).data.status).toBe("invalid");
+
+    api.failNext(503, 2);
+    const outage = await call<ICDValidation>({ action: "validate", code: "1A00" });
+    expect(outage.data.status).toBe("unverified");
+  });
+});
+
+describe("expand", () => {
+  it("flattens a chapter into its codes", async () => {
+    const { data } = await call<ICDExpansion>({ action: "expand", code: "12" });
+    expect(data.concepts.map((c) => c.code)).toEqual(["CA40", "CA40.0", "CA40.Z"]);
+    expect(data.truncated).toBe(false);
+  });
+
+  it("filters and includes groupings on request", async () => {
+    const { data } = await call<ICDExpansion>({
+      action: "expand",
+      code: "I",
+      version: "10",
+      include_groupings: true,
+      filter: "eltor",
+    });
+    expect(data.concepts.map((c) => c.code)).toEqual(["A00.1"]);
+  });
+});
+
+describe("map", () => {
+  it("maps ICD-10 to ICD-11 and back", async () => {
+    const forward = await call<CrosswalkResult>({ action: "map", code: "A00.0" });
+    expect(forward.data).toMatchObject({ from: "10", to: "11", cardinality: "one-to-one" });
+    expect(forward.data.targets[0].code).toBe("1A00");
+
+    const back = await call<CrosswalkResult>({ action: "map", code: "1A00", version: "11" });
+    expect(back.data.targets[0].code).toBe("A00.9");
+  });
+
+  it("fails clearly without mapping tables", async () => {
+    services = {};
+    const { isError, text } = await call({ action: "map", code: "A00.0" });
+    expect(isError).toBe(true);
+    expect(text).toContain("ICD_MAPPINGS");
+  });
+});
+
+describe("postcoordination", () => {
+  it("lists the allowed axes with their values", async () => {
+    const { data } = await call<{ axes: PostcoordinationAxisData[] }>({
+      action: "postcoordination",
+      code: "CA40",
+    });
+    expect(data.axes[0]).toMatchObject({ axis: "infectiousAgent", required: false });
+    expect(JSON.stringify(data.axes[0].values)).toContain("XN2SQ");
+  });
+
+  it("is ICD-11 only", async () => {
+    const { isError } = await call({ action: "postcoordination", code: "J18", version: "10" });
+    expect(isError).toBe(true);
+  });
+});
+
+describe("releases", () => {
+  it("lists the releases of both classifications", async () => {
+    const { data } = await call<{ releases: ICDReleaseList[] }>({ action: "releases" });
+    const byVersion = Object.fromEntries(data.releases.map((r) => [r.version, r]));
+    expect(byVersion["11"]).toMatchObject({ releases: ["2024-01", "2023-01"], latest: "2024-01", current: "2024-01" });
+    expect(byVersion["10"]).toMatchObject({ releases: ["2019", "2016"], current: "2019" });
+  });
+});
+
+describe("diff", () => {
+  it("reports added and renamed codes between releases", async () => {
+    const { data } = await call<ReleaseDiff>({
+      action: "diff",
+      code: "12",
+      release: "2023-01",
+      compare_release: "2024-01",
+    });
+    expect(data.from).toBe("2023-01");
+    expect(data.to).toBe("2024-01");
+    expect(data.added.map((c) => c.code)).toEqual(["CA40.Z"]);
+    expect(data.renamed[0]).toMatchObject({ code: "CA40.0", before: "Bacterial pneumonia, not elsewhere classified" });
+    expect(data.removed).toEqual([]);
+  });
+});
+
+describe("foundation", () => {
+  it("returns synonyms and the MMS code of a Foundation entity", async () => {
+    const { data } = await call<{ entity: ICDFoundationEntity; linearization: unknown }>({
+      action: "foundation",
+      code: "257068234",
+    });
+    expect(data.entity.synonyms).toEqual(["Asiatic cholera"]);
+    expect(data.linearization).toMatchObject({ match: "exact", entity: { code: "1A00" } });
+  });
+
+  it("finds index-only concepts", async () => {
+    const { data } = await call<{ results: ICDFoundationSearchResult[] }>({
+      action: "foundation_search",
+      query: "walking pneumonia",
+    });
+    expect(data.results[0]).toMatchObject({ id: "1110110519", matchedTerm: "Walking pneumonia" });
+  });
+});
+
+describe("reference actions", () => {
+  it("answers coding_rules, overview and help without calling the API", async () => {
+    for (const action of ["coding_rules", "overview", "help"]) {
+      const { text, isError } = await call({ action });
+      expect(isError).toBe(false);
+      expect(text.length).toBeGreaterThan(100);
+    }
+    expect((await call({ action: "coding_rules", topic: "dagger_asterisk" })).text).toMatch(/dagger/i);
+    expect(api.requests).toEqual([]);
+  });
+});
+
+describe("api", () => {
+  it("passes raw requests through", async () => {
+    const { data } = await call({ action: "api", path: "/icd/release/11/2024-01/mms/codeinfo/CA40" });
+    expect(data.response).toMatchObject({ code: "CA40" });
+  });
+});
+
+describe("errors", () => {
+  it("reports WHO rate limiting as a tool error, not a negative result", async () => {
+    api.failNext(429, 2, { "Retry-After": "0" });
+    const { isError, data, text } = await call<ErrorData>({ action: "lookup", code: "1A00" });
+    expect(isError).toBe(true);
+    expect(data.error.kind).toBe("rate_limited");
+    expect(text).toContain("not a negative result");
+  });
+
+  it("rejects missing parameters", async () => {
+    const { isError, data } = await call<ErrorData>({ action: "lookup" });
+    expect(isError).toBe(true);
+    expect(data.error.kind).toBe("invalid_input");
+  });
+});
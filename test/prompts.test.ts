@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { registerPrompts } from "../src/prompts";
+import { CODING_RULES } from "../src/handlers";
+
+let mcp: Client;
+
+beforeEach(async () => {
+  const server = new McpServer({ name: "test", version: "0.0.0" });
+  registerPrompts(server);
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  mcp = new Client({ name: "test-host", version: "0.0.0" });
+  await Promise.all([server.connect(serverTransport), mcp.connect(clientTransport)]);
+});
+
+async function prompt(name: string, args: Record<string, string>): Promise<string> {
+  const { messages } = await mcp.getPrompt({ name, arguments: args });
+  expect(messages).toHaveLength(1);
+  return messages[0].content.type === "text" ? messages[0].content.text : "";
+}
+
+describe("prompts", () => {
+  it("lists the workflows with their arguments", async () => {
+    const { prompts } = await mcp.listPrompts();
+    expect(prompts.map((p) => p.name)).toEqual(["code_discharge_summary", "verify_claim_codes", "convert_icd10_to_icd11"]);
+    expect(prompts[1].arguments?.map((a) => [a.name, a.required])).toEqual([
+      ["codes", true],
+      ["documentation", false],
+      ["version", false],
+    ]);
+  });
+
+  it("codes a discharge summary with autocode in ICD-11, search in ICD-10", async () => {
+    const icd11 = await prompt("code_discharge_summary", { text: "Admitted with cholera. No pneumonia." });
+    expect(icd11).toContain("Admitted with cholera. No pneumonia.");
+    expect(icd11).toContain('{"action": "autocode"');
+    expect(icd11).toContain(CODING_RULES.sequencing);
+    expect(icd11).toContain(CODING_RULES.clustering);
+
+    const icd10 = await prompt("code_discharge_summary", { text: "Cholera", version: "10" });
+    expect(icd10).toContain('{"action": "search", "query": "<diagnosis as documented>", "version": "10"}');
+    expect(icd10).toContain(CODING_RULES.dagger_asterisk);
+  });
+
+  it("verifies claim codes in one batch, against the documentation when given", async () => {
+    const text = await prompt("verify_claim_codes", { codes: "a00.0, j18.9\nCA40", documentation: "Pneumonia" });
+    expect(text).toContain('{"action": "validate", "codes": ["A00.0","J18.9","CA40"], "version": "mixed"}');
+    expect(text).toContain("## Clinical documentation\n\nPneumonia");
+
+    expect(await prompt("verify_claim_codes", { codes: "1A00", version: "11" })).not.toContain("## Clinical documentation");
+  });
+
+  it("keeps cluster expressions whole", async () => {
+    const text = await prompt("verify_claim_codes", { codes: "BA00 & XS28; BA00/XS28 &XT5R\n1A00" });
+    expect(text).toContain('"codes": ["BA00 & XS28","BA00/XS28 &XT5R","1A00"]');
+  });
+
+  it("converts ICD-10 codes through the crosswalk", async () => {
+    const text = await prompt("convert_icd10_to_icd11", { codes: "A00.0;J18.9" });
+    expect(text).toContain("1. A00.0\n2. J18.9");
+    expect(text).toContain('{"action": "map", "code": "...", "version": "10"}');
+  });
+
+  it("rejects an unknown version", async () => {
+    await expect(prompt("code_discharge_summary", { text: "Cholera", version: "9" })).rejects.toThrow();
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  RateLimiter,
+  chargeCaller,
+  mcpRequestCost,
+  fhirRequestCost,
+  rateLimitHeaders,
+  quotaExceededMessage,
+} from "../src/ratelimit";
+import { MAX_EXPANSION_NODES } from "../src/client";
+import { UpstreamUnavailableError } from "../src/errors";
+
+// 2026-10-19T10:00:30Z
+const NOW = Date.UTC(2026, 9, 19, 10, 0, 30);
+const MIDNIGHT = Date.UTC(2026, 9, 20);
+
+let storage: Map<string, unknown>;
+let alarm: number | null;
+let limiter: RateLimiter;
+
+beforeEach(() => {
+  storage = new Map();
+  alarm = null;
+  const state = {
+    storage: {
+      get: async (key: string) => storage.get(key),
+      put: async (key: string, value: unknown) => void storage.set(key, structuredClone(value)),
+      deleteAll: async () => storage.clear(),
+      setAlarm: async (at: number) => void (alarm = at),
+    },
+  };
+  limiter = new RateLimiter(state as unknown as DurableObjectState);
+});
+
+describe("RateLimiter", () => {
+  it("charges calls until the per-minute limit, then resets with the next minute", async () => {
+    const policy = { perMinute: 3, perDay: 100 };
+
+    expect((await limiter.charge(2, policy, NOW)).remaining).toBe(1);
+    const denied = await limiter.charge(2, policy, NOW + 1000);
+    expect(denied).toMatchObject({ allowed: false, exceeded: "minute", remaining: 1, retryAfterMs: 29_000 });
+
+    // Denied calls are not charged
+    expect(await limiter.charge(1, policy, NOW + 2000)).toMatchObject({ allowed: true, remaining: 0, dailyRemaining: 97 });
+    expect(await limiter.charge(1, policy, NOW + 30_000)).toMatchObject({ allowed: true, remaining: 2, dailyRemaining: 96 });
+  });
+
+  it("enforces the daily quota until midnight UTC", async () => {
+    const policy = { perMinute: 0, perDay: 2 };
+
+    await limiter.charge(2, policy, NOW);
+    expect(await limiter.charge(1, policy, NOW + 60_000)).toMatchObject({
+      allowed: false,
+      exceeded: "day",
+      retryAfterMs: MIDNIGHT - NOW - 60_000,
+    });
+    expect((await limiter.charge(1, policy, MIDNIGHT)).allowed).toBe(true);
+  });
+
+  it("drops an idle caller's counters once the day is over", async () => {
+    await limiter.charge(1, { perMinute: 10, perDay: 10 }, NOW);
+    expect(alarm).toBe(MIDNIGHT);
+
+    await limiter.alarm();
+    expect(storage.size).toBe(0);
+  });
+
+  it("denies a request that costs more than the per-minute limit, without charging it", async () => {
+    const policy = { perMinute: 60, perDay: 1000 };
+    const denied = await limiter.charge(500, policy, NOW);
+    expect(denied).toMatchObject({ allowed: false, exceeded: "request", remaining: 60, dailyRemaining: 1000 });
+    expect(denied.retryAfterMs).toBeUndefined();
+    expect(quotaExceededMessage(denied)).toContain("this request costs 500 calls, more than the limit of 60 calls per minute");
+    expect((await limiter.charge(60, policy, NOW + 1000)).allowed).toBe(true);
+  });
+
+  it("answers charges over fetch", async () => {
+    const response = await limiter.fetch(
+      new Request("https://rate-limiter/charge", { method: "POST", body: JSON.stringify({ cost: 1, policy: { perMinute: 5, perDay: 0 } }) })
+    );
+    expect(await response.json()).toMatchObject({ allowed: true, remaining: 4 });
+  });
+
+  it("reports an unreachable Durable Object as upstream failure", async () => {
+    const namespace = {
+      idFromName: (name: string) => name,
+      get: () => ({ fetch: async () => new Response("internal error", { status: 500 }) }),
+    } as unknown as DurableObjectNamespace;
+    await expect(chargeCaller(namespace, "ip:1", 1, { perMinute: 1, perDay: 1 })).rejects.toBeInstanceOf(
+      UpstreamUnavailableError
+    );
+  });
+});
+
+describe("headers and messages", () => {
+  it("reports remaining budgets, and Retry-After when denied", async () => {
+    const allowed = await limiter.charge(1, { perMinute: 1, perDay: 10 }, NOW);
+    expect(rateLimitHeaders(allowed)).toEqual({
+      "X-RateLimit-Limit": "1",
+      "X-RateLimit-Remaining": "0",
+      "X-RateLimit-Reset": String((NOW + 30_000) / 1000),
+      "X-Quota-Limit": "10",
+      "X-Quota-Remaining": "9",
+      "X-Quota-Reset": String(MIDNIGHT / 1000),
+    });
+
+    const denied = await limiter.charge(1, { perMinute: 1, perDay: 0 }, NOW + 10_000);
+    expect(rateLimitHeaders(denied)).toEqual({
+      "X-RateLimit-Limit": "1",
+      "X-RateLimit-Remaining": "0",
+      "X-RateLimit-Reset": String((NOW + 30_000) / 1000),
+      "Retry-After": "20",
+    });
+    expect(quotaExceededMessage(denied)).toContain("limit of 1 calls per minute reached; retry in 20s");
+  });
+
+  it("names the exhausted daily quota", async () => {
+    await limiter.charge(1, { perMinute: 0, perDay: 1 }, NOW);
+    const denied = await limiter.charge(1, { perMinute: 0, perDay: 1 }, NOW);
+    expect(quotaExceededMessage(denied)).toContain("daily quota of 1 calls used up; it resets at 2026-10-20T00:00:00.000Z");
+  });
+
+});
+
+describe("request costs", () => {
+  it("charges tool calls in single and batched MCP messages", () => {
+    expect(mcpRequestCost({ jsonrpc: "2.0", id: 1, method: "tools/call" })).toBe(1);
+    expect(mcpRequestCost([{ method: "tools/call" }, { method: "tools/list" }, { method: "tools/call" }])).toBe(2);
+    expect(mcpRequestCost({ method: "initialize" })).toBe(0);
+    expect(mcpRequestCost(null)).toBe(0);
+  });
+
+  it("weights batches, multilingual lookups, notes and subtree walks", () => {
+    const tool = (args: Record<string, unknown>) =>
+      mcpRequestCost({ method: "tools/call", params: { name: "icd", arguments: args } });
+
+    expect(tool({ action: "lookup", code: "1A00" })).toBe(1);
+    expect(tool({ action: "coding_rules", topic: "sequencing" })).toBe(0);
+    expect(tool({ action: "help" })).toBe(0);
+    expect(tool({ action: "validate", codes: ["1A00", "J18.9", "ZZ99"] })).toBe(3);
+    expect(tool({ action: "lookup", code: "1A00", languages: ["en", "fr"] })).toBe(2);
+    expect(tool({ action: "code_note", query: "Cholera and pneumonia. No fever." })).toBe(2);
+    expect(tool({ action: "expand", code: "12" })).toBe(MAX_EXPANSION_NODES);
+    expect(tool({ action: "diff", code: "12", release: "2023-01" })).toBe(2 * MAX_EXPANSION_NODES);
+  });
+
+  it("charges resource reads, listings and completions, but not prompts", () => {
+    expect(mcpRequestCost({ method: "resources/read", params: { uri: "icd://10/2019/A00" } })).toBe(1);
+    expect(mcpRequestCost({ method: "resources/list" })).toBe(1);
+    expect(mcpRequestCost({ method: "resources/templates/list" })).toBe(0);
+    expect(mcpRequestCost({ method: "completion/complete", params: { ref: { type: "ref/resource" } } })).toBe(1);
+    expect(mcpRequestCost({ method: "completion/complete", params: { ref: { type: "ref/prompt" } } })).toBe(0);
+    expect(mcpRequestCost({ method: "prompts/get" })).toBe(0);
+  });
+
+  it("charges FHIR expansions as subtree walks", () => {
+    expect(fhirRequestCost("/fhir/CodeSystem/$lookup")).toBe(1);
+    expect(fhirRequestCost("/fhir/ValueSet/$expand")).toBe(MAX_EXPANSION_NODES);
+  });
+});
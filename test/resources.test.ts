@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { WHOICDClient } from "../src/client";
+import { registerResources } from "../src/resources";
+import { RateLimitStatus } from "../src/ratelimit";
+import { createFakeWhoApi, FAKE_TOKEN_ENDPOINT, FAKE_CLIENT_ID, FAKE_CLIENT_SECRET } from "./fake-who-api";
+
+let mcp: Client;
+let client: WHOICDClient;
+let host = 0;
+
+/**
+ * MCP client connected to a server exposing the entity resources
+ */
+async function connect(quota?: RateLimitStatus): Promise<Client> {
+  const server = new McpServer({ name: "test", version: "0.0.0" });
+  registerResources(server, client, quota);
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const mcpClient = new Client({ name: "test-host", version: "0.0.0" });
+  await Promise.all([server.connect(serverTransport), mcpClient.connect(clientTransport)]);
+  return mcpClient;
+}
+
+beforeEach(async () => {
+  const api = createFakeWhoApi();
+  client = new WHOICDClient({
+    clientId: FAKE_CLIENT_ID,
+    clientSecret: FAKE_CLIENT_SECRET,
+    icd10Release: "2019",
+    icd11Release: "2024-01",
+    tokenEndpoint: FAKE_TOKEN_ENDPOINT,
+    apiBaseUrl: `https://resources-${++host}.test`,
+    fetch: api.fetch,
+    retry: { maxRetries: 1, baseDelayMs: 1, maxDelayMs: 10 },
+  });
+
+  mcp = await connect();
+});
+
+async function read(uri: string): Promise<string> {
+  const { contents } = await mcp.readResource({ uri });
+  return "text" in contents[0] ? contents[0].text : "";
+}
+
+describe("resources", () => {
+  it("lists the chapters of both classifications", async () => {
+    const { resources } = await mcp.listResources();
+    expect(resources.map((resource) => resource.uri)).toEqual([
+      "icd://10/2019/I",
+      "icd://10/2019/X",
+      "icd://11/2024-01/mms/01",
+      "icd://11/2024-01/mms/12",
+    ]);
+    expect(resources[2].name).toBe("ICD-11 chapter 01: Certain infectious or parasitic diseases");
+  });
+
+  it("reads an ICD-11 entity with its definition, exclusions and coding note", async () => {
+    const text = await read("icd://11/2024-01/mms/1A00");
+    expect(text).toContain("**1A00**: Cholera");
+    expect(text).toContain("**Definition:** Cholera is an acute diarrhoeal infection");
+    expect(text).toContain("**Coding Note:** Use additional code");
+    expect(text).toContain("  - Cholera vaccination");
+  });
+
+  it("reads an ICD-10 entity in the release named by the URI", async () => {
+    expect(await read("icd://10/2019/A00.1")).toContain("biovar eltor");
+    expect(await read("icd://10/2016/A00.1")).toContain("biovar El Tor");
+    expect(await read("icd://10/2019/A00.0")).toContain("  - Classical cholera");
+  });
+
+  it("rejects unknown codes and releases", async () => {
+    await expect(read("icd://11/2024-01/mms/ZZ99")).rejects.toThrow(/not found in release 2024-01/);
+    await expect(read("icd://11/2019-04/mms/1A00")).rejects.toThrow(/release '2019-04' is not available/);
+  });
+
+  it("completes the release variable", async () => {
+    const { completion } = await mcp.complete({
+      ref: { type: "ref/resource", uri: "icd://11/{release}/mms/{code}" },
+      argument: { name: "release", value: "2023" },
+    });
+    expect(completion.values).toEqual(["2023-01"]);
+  });
+
+  it("refuses reads once the caller's rate limit is exhausted", async () => {
+    const limited = await connect({
+      allowed: false,
+      policy: { perMinute: 10, perDay: 0 },
+      remaining: 0,
+      dailyRemaining: 0,
+      resetAt: 0,
+      dailyResetAt: 0,
+      cost: 1,
+      exceeded: "minute",
+      retryAfterMs: 20_000,
+    });
+    await expect(limited.readResource({ uri: "icd://11/2024-01/mms/1A00" })).rejects.toThrow(/limit of 10 calls per minute/);
+    await expect(limited.listResources()).rejects.toThrow(/Rate limit for this caller exceeded/);
+  });
+});